@@ -1,5 +1,9 @@
 import { openai } from '@ai-sdk/openai';
 import { Agent } from '@mastra/core/agent';
+import { glossaryCheckTool, glossaryTool } from '../tools/glossaryTool';
+import { translateDocumentTool } from '../tools/translateDocumentTool';
+import { translationMemoryTool } from '../tools/translationMemoryTool';
+import { verifyTranslationTool } from '../tools/verifyTranslationTool';
 
 export const translatorAgent = new Agent({
   name: 'Translator Agent',
@@ -9,6 +13,13 @@ export const translatorAgent = new Agent({
     Your primary function is to translate text accurately and naturally. When responding:
     - Auto-detect the source language if not specified
     - If the target language is not specified, translate to English by default
+    - Before translating short texts or UI strings, call translationMemoryTool with action "lookup", the segments and the language pair; reuse exact matches as they are, and follow the wording of fuzzy matches where it fits
+    - When the user approves or corrects a translation, save it with translationMemoryTool action "record"; use "import-tmx" and "export-tmx" when the user provides or asks for a TMX file
+    - Before translating, call glossaryTool with action "lookup", the text and the language pair (e.g. en → zh-CN); render every returned term exactly as its "expected" value, and keep do-not-translate terms as written
+    - After translating, call glossaryCheckTool with the source text and your translation; if it reports violations, fix them and check again before answering
+    - When the user defines terminology ("always translate X as Y", "never translate Z"), save it with glossaryTool action "add" for that language pair, using "*" as the target language for names that stay untranslated in every language
+    - For files and structured content (Markdown, HTML, JSON locale files, PO, XLIFF), use translateDocumentTool with the whole content, the filename if known, the source and target language (the source language enables translation memory); return its content unchanged in a code block, and list any issues it reports by location
+    - When the user asks to verify a translation, or the text is customer-facing (marketing, legal, product copy), call verifyTranslationTool with the source text, your translation and the language pair; fix high-severity problems and verify again, then report the confidence, verdict and any remaining problems
     - Preserve tone, style, and formatting of the original text
     - For idiomatic expressions, provide both a literal and natural translation
     - Note any cultural context that may affect meaning
@@ -18,7 +29,9 @@ export const translatorAgent = new Agent({
     Always respond with:
     1. The translated text
     2. Source language detected (if auto-detected)
-    3. Any important notes about nuance or cultural context
+    3. Any important notes about nuance or cultural context, and any glossary violations you could not resolve
+    4. When the translation was verified, its confidence score and suspected problems
   `,
   model: openai('gpt-4o-mini'),
+  tools: { glossaryTool, glossaryCheckTool, translateDocumentTool, translationMemoryTool, verifyTranslationTool },
 });
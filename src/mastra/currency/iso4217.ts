@@ -0,0 +1,276 @@
+/**
+ * Active ISO 4217 currencies with English and Chinese names and the
+ * countries (in both languages) that use them.
+ */
+export interface CurrencyInfo {
+  code: string;
+  name: string;
+  nameZh: string;
+  /** Decimal places used for amounts. */
+  minorUnits: number;
+  countries: string[];
+}
+
+type Row = [code: string, minorUnits: number, name: string, nameZh: string, countries: string[]];
+
+const ROWS: Row[] = [
+  ['AED', 2, 'UAE Dirham', '阿联酋迪拉姆', ['United Arab Emirates', 'UAE', '阿联酋', '阿拉伯联合酋长国']],
+  ['AFN', 2, 'Afghan Afghani', '阿富汗尼', ['Afghanistan', '阿富汗']],
+  ['ALL', 2, 'Albanian Lek', '阿尔巴尼亚列克', ['Albania', '阿尔巴尼亚']],
+  ['AMD', 2, 'Armenian Dram', '亚美尼亚德拉姆', ['Armenia', '亚美尼亚']],
+  ['ANG', 2, 'Netherlands Antillean Guilder', '荷属安的列斯盾', ['Curacao', 'Sint Maarten', '库拉索', '荷属圣马丁']],
+  ['AOA', 2, 'Angolan Kwanza', '安哥拉宽扎', ['Angola', '安哥拉']],
+  ['ARS', 2, 'Argentine Peso', '阿根廷比索', ['Argentina', '阿根廷']],
+  ['AUD', 2, 'Australian Dollar', '澳大利亚元', ['Australia', '澳大利亚', '澳洲']],
+  ['AWG', 2, 'Aruban Florin', '阿鲁巴弗罗林', ['Aruba', '阿鲁巴']],
+  ['AZN', 2, 'Azerbaijani Manat', '阿塞拜疆马纳特', ['Azerbaijan', '阿塞拜疆']],
+  ['BAM', 2, 'Bosnia-Herzegovina Convertible Mark', '波黑可兑换马克', ['Bosnia and Herzegovina', '波黑', '波斯尼亚和黑塞哥维那']],
+  ['BBD', 2, 'Barbadian Dollar', '巴巴多斯元', ['Barbados', '巴巴多斯']],
+  ['BDT', 2, 'Bangladeshi Taka', '孟加拉塔卡', ['Bangladesh', '孟加拉国', '孟加拉']],
+  ['BGN', 2, 'Bulgarian Lev', '保加利亚列弗', ['Bulgaria', '保加利亚']],
+  ['BHD', 3, 'Bahraini Dinar', '巴林第纳尔', ['Bahrain', '巴林']],
+  ['BIF', 0, 'Burundian Franc', '布隆迪法郎', ['Burundi', '布隆迪']],
+  ['BMD', 2, 'Bermudian Dollar', '百慕大元', ['Bermuda', '百慕大']],
+  ['BND', 2, 'Brunei Dollar', '文莱元', ['Brunei', '文莱']],
+  ['BOB', 2, 'Bolivian Boliviano', '玻利维亚诺', ['Bolivia', '玻利维亚']],
+  ['BRL', 2, 'Brazilian Real', '巴西雷亚尔', ['Brazil', '巴西']],
+  ['BSD', 2, 'Bahamian Dollar', '巴哈马元', ['Bahamas', '巴哈马']],
+  ['BTN', 2, 'Bhutanese Ngultrum', '不丹努尔特鲁姆', ['Bhutan', '不丹']],
+  ['BWP', 2, 'Botswana Pula', '博茨瓦纳普拉', ['Botswana', '博茨瓦纳']],
+  ['BYN', 2, 'Belarusian Ruble', '白俄罗斯卢布', ['Belarus', '白俄罗斯']],
+  ['BZD', 2, 'Belize Dollar', '伯利兹元', ['Belize', '伯利兹']],
+  ['CAD', 2, 'Canadian Dollar', '加拿大元', ['Canada', '加拿大']],
+  ['CDF', 2, 'Congolese Franc', '刚果法郎', ['Democratic Republic of the Congo', 'DR Congo', '刚果（金）', '刚果民主共和国']],
+  ['CHF', 2, 'Swiss Franc', '瑞士法郎', ['Switzerland', 'Liechtenstein', '瑞士', '列支敦士登']],
+  ['CLP', 0, 'Chilean Peso', '智利比索', ['Chile', '智利']],
+  ['CNY', 2, 'Chinese Yuan', '人民币', ['China', "People's Republic of China", 'PRC', '中国', '中华人民共和国']],
+  ['COP', 2, 'Colombian Peso', '哥伦比亚比索', ['Colombia', '哥伦比亚']],
+  ['CRC', 2, 'Costa Rican Colon', '哥斯达黎加科朗', ['Costa Rica', '哥斯达黎加']],
+  ['CUP', 2, 'Cuban Peso', '古巴比索', ['Cuba', '古巴']],
+  ['CVE', 2, 'Cape Verdean Escudo', '佛得角埃斯库多', ['Cape Verde', 'Cabo Verde', '佛得角']],
+  ['CZK', 2, 'Czech Koruna', '捷克克朗', ['Czech Republic', 'Czechia', '捷克']],
+  ['DJF', 0, 'Djiboutian Franc', '吉布提法郎', ['Djibouti', '吉布提']],
+  ['DKK', 2, 'Danish Krone', '丹麦克朗', ['Denmark', 'Greenland', 'Faroe Islands', '丹麦', '格陵兰', '法罗群岛']],
+  ['DOP', 2, 'Dominican Peso', '多米尼加比索', ['Dominican Republic', '多米尼加共和国', '多米尼加']],
+  ['DZD', 2, 'Algerian Dinar', '阿尔及利亚第纳尔', ['Algeria', '阿尔及利亚']],
+  ['EGP', 2, 'Egyptian Pound', '埃及镑', ['Egypt', '埃及']],
+  ['ERN', 2, 'Eritrean Nakfa', '厄立特里亚纳克法', ['Eritrea', '厄立特里亚']],
+  ['ETB', 2, 'Ethiopian Birr', '埃塞俄比亚比尔', ['Ethiopia', '埃塞俄比亚']],
+  [
+    'EUR',
+    2,
+    'Euro',
+    '欧元',
+    [
+      'Eurozone', 'European Union', 'Austria', 'Belgium', 'Croatia', 'Cyprus', 'Estonia', 'Finland', 'France', 'Germany',
+      'Greece', 'Ireland', 'Italy', 'Latvia', 'Lithuania', 'Luxembourg', 'Malta', 'Netherlands', 'Portugal', 'Slovakia',
+      'Slovenia', 'Spain', 'Monaco', 'San Marino', 'Vatican City', 'Andorra', 'Montenegro', 'Kosovo',
+      '欧元区', '欧盟', '奥地利', '比利时', '克罗地亚', '塞浦路斯', '爱沙尼亚', '芬兰', '法国', '德国', '希腊', '爱尔兰', '意大利',
+      '拉脱维亚', '立陶宛', '卢森堡', '马耳他', '荷兰', '葡萄牙', '斯洛伐克', '斯洛文尼亚', '西班牙', '摩纳哥', '圣马力诺', '梵蒂冈',
+      '安道尔', '黑山', '科索沃',
+    ],
+  ],
+  ['FJD', 2, 'Fijian Dollar', '斐济元', ['Fiji', '斐济']],
+  ['FKP', 2, 'Falkland Islands Pound', '福克兰群岛镑', ['Falkland Islands', '福克兰群岛']],
+  ['GBP', 2, 'British Pound', '英镑', ['United Kingdom', 'UK', 'Great Britain', 'Britain', 'England', 'Scotland', 'Wales', '英国', '英格兰', '苏格兰']],
+  ['GEL', 2, 'Georgian Lari', '格鲁吉亚拉里', ['Georgia', '格鲁吉亚']],
+  ['GHS', 2, 'Ghanaian Cedi', '加纳塞地', ['Ghana', '加纳']],
+  ['GIP', 2, 'Gibraltar Pound', '直布罗陀镑', ['Gibraltar', '直布罗陀']],
+  ['GMD', 2, 'Gambian Dalasi', '冈比亚达拉西', ['Gambia', '冈比亚']],
+  ['GNF', 0, 'Guinean Franc', '几内亚法郎', ['Guinea', '几内亚']],
+  ['GTQ', 2, 'Guatemalan Quetzal', '危地马拉格查尔', ['Guatemala', '危地马拉']],
+  ['GYD', 2, 'Guyanese Dollar', '圭亚那元', ['Guyana', '圭亚那']],
+  ['HKD', 2, 'Hong Kong Dollar', '港币', ['Hong Kong', '香港']],
+  ['HNL', 2, 'Honduran Lempira', '洪都拉斯伦皮拉', ['Honduras', '洪都拉斯']],
+  ['HTG', 2, 'Haitian Gourde', '海地古德', ['Haiti', '海地']],
+  ['HUF', 2, 'Hungarian Forint', '匈牙利福林', ['Hungary', '匈牙利']],
+  ['IDR', 2, 'Indonesian Rupiah', '印尼盾', ['Indonesia', '印度尼西亚', '印尼']],
+  ['ILS', 2, 'Israeli New Shekel', '以色列新谢克尔', ['Israel', '以色列']],
+  ['INR', 2, 'Indian Rupee', '印度卢比', ['India', '印度']],
+  ['IQD', 3, 'Iraqi Dinar', '伊拉克第纳尔', ['Iraq', '伊拉克']],
+  ['IRR', 2, 'Iranian Rial', '伊朗里亚尔', ['Iran', '伊朗']],
+  ['ISK', 0, 'Icelandic Krona', '冰岛克朗', ['Iceland', '冰岛']],
+  ['JMD', 2, 'Jamaican Dollar', '牙买加元', ['Jamaica', '牙买加']],
+  ['JOD', 3, 'Jordanian Dinar', '约旦第纳尔', ['Jordan', '约旦']],
+  ['JPY', 0, 'Japanese Yen', '日元', ['Japan', '日本']],
+  ['KES', 2, 'Kenyan Shilling', '肯尼亚先令', ['Kenya', '肯尼亚']],
+  ['KGS', 2, 'Kyrgyzstani Som', '吉尔吉斯斯坦索姆', ['Kyrgyzstan', '吉尔吉斯斯坦']],
+  ['KHR', 2, 'Cambodian Riel', '柬埔寨瑞尔', ['Cambodia', '柬埔寨']],
+  ['KMF', 0, 'Comorian Franc', '科摩罗法郎', ['Comoros', '科摩罗']],
+  ['KPW', 2, 'North Korean Won', '朝鲜圆', ['North Korea', '朝鲜']],
+  ['KRW', 0, 'South Korean Won', '韩元', ['South Korea', 'Korea', '韩国']],
+  ['KWD', 3, 'Kuwaiti Dinar', '科威特第纳尔', ['Kuwait', '科威特']],
+  ['KYD', 2, 'Cayman Islands Dollar', '开曼元', ['Cayman Islands', '开曼群岛']],
+  ['KZT', 2, 'Kazakhstani Tenge', '哈萨克斯坦坚戈', ['Kazakhstan', '哈萨克斯坦']],
+  ['LAK', 2, 'Lao Kip', '老挝基普', ['Laos', '老挝']],
+  ['LBP', 2, 'Lebanese Pound', '黎巴嫩镑', ['Lebanon', '黎巴嫩']],
+  ['LKR', 2, 'Sri Lankan Rupee', '斯里兰卡卢比', ['Sri Lanka', '斯里兰卡']],
+  ['LRD', 2, 'Liberian Dollar', '利比里亚元', ['Liberia', '利比里亚']],
+  ['LSL', 2, 'Lesotho Loti', '莱索托洛蒂', ['Lesotho', '莱索托']],
+  ['LYD', 3, 'Libyan Dinar', '利比亚第纳尔', ['Libya', '利比亚']],
+  ['MAD', 2, 'Moroccan Dirham', '摩洛哥迪拉姆', ['Morocco', '摩洛哥']],
+  ['MDL', 2, 'Moldovan Leu', '摩尔多瓦列伊', ['Moldova', '摩尔多瓦']],
+  ['MGA', 2, 'Malagasy Ariary', '马达加斯加阿里亚里', ['Madagascar', '马达加斯加']],
+  ['MKD', 2, 'Macedonian Denar', '马其顿第纳尔', ['North Macedonia', '北马其顿']],
+  ['MMK', 2, 'Myanmar Kyat', '缅甸元', ['Myanmar', 'Burma', '缅甸']],
+  ['MNT', 2, 'Mongolian Tugrik', '蒙古图格里克', ['Mongolia', '蒙古']],
+  ['MOP', 2, 'Macanese Pataca', '澳门元', ['Macau', 'Macao', '澳门']],
+  ['MRU', 2, 'Mauritanian Ouguiya', '毛里塔尼亚乌吉亚', ['Mauritania', '毛里塔尼亚']],
+  ['MUR', 2, 'Mauritian Rupee', '毛里求斯卢比', ['Mauritius', '毛里求斯']],
+  ['MVR', 2, 'Maldivian Rufiyaa', '马尔代夫拉菲亚', ['Maldives', '马尔代夫']],
+  ['MWK', 2, 'Malawian Kwacha', '马拉维克瓦查', ['Malawi', '马拉维']],
+  ['MXN', 2, 'Mexican Peso', '墨西哥比索', ['Mexico', '墨西哥']],
+  ['MYR', 2, 'Malaysian Ringgit', '马来西亚林吉特', ['Malaysia', '马来西亚']],
+  ['MZN', 2, 'Mozambican Metical', '莫桑比克梅蒂卡尔', ['Mozambique', '莫桑比克']],
+  ['NAD', 2, 'Namibian Dollar', '纳米比亚元', ['Namibia', '纳米比亚']],
+  ['NGN', 2, 'Nigerian Naira', '尼日利亚奈拉', ['Nigeria', '尼日利亚']],
+  ['NIO', 2, 'Nicaraguan Cordoba', '尼加拉瓜科多巴', ['Nicaragua', '尼加拉瓜']],
+  ['NOK', 2, 'Norwegian Krone', '挪威克朗', ['Norway', '挪威']],
+  ['NPR', 2, 'Nepalese Rupee', '尼泊尔卢比', ['Nepal', '尼泊尔']],
+  ['NZD', 2, 'New Zealand Dollar', '新西兰元', ['New Zealand', '新西兰']],
+  ['OMR', 3, 'Omani Rial', '阿曼里亚尔', ['Oman', '阿曼']],
+  ['PAB', 2, 'Panamanian Balboa', '巴拿马巴波亚', ['Panama', '巴拿马']],
+  ['PEN', 2, 'Peruvian Sol', '秘鲁索尔', ['Peru', '秘鲁']],
+  ['PGK', 2, 'Papua New Guinean Kina', '巴布亚新几内亚基那', ['Papua New Guinea', '巴布亚新几内亚']],
+  ['PHP', 2, 'Philippine Peso', '菲律宾比索', ['Philippines', '菲律宾']],
+  ['PKR', 2, 'Pakistani Rupee', '巴基斯坦卢比', ['Pakistan', '巴基斯坦']],
+  ['PLN', 2, 'Polish Zloty', '波兰兹罗提', ['Poland', '波兰']],
+  ['PYG', 0, 'Paraguayan Guarani', '巴拉圭瓜拉尼', ['Paraguay', '巴拉圭']],
+  ['QAR', 2, 'Qatari Riyal', '卡塔尔里亚尔', ['Qatar', '卡塔尔']],
+  ['RON', 2, 'Romanian Leu', '罗马尼亚列伊', ['Romania', '罗马尼亚']],
+  ['RSD', 2, 'Serbian Dinar', '塞尔维亚第纳尔', ['Serbia', '塞尔维亚']],
+  ['RUB', 2, 'Russian Ruble', '俄罗斯卢布', ['Russia', '俄罗斯']],
+  ['RWF', 0, 'Rwandan Franc', '卢旺达法郎', ['Rwanda', '卢旺达']],
+  ['SAR', 2, 'Saudi Riyal', '沙特里亚尔', ['Saudi Arabia', '沙特阿拉伯', '沙特']],
+  ['SBD', 2, 'Solomon Islands Dollar', '所罗门群岛元', ['Solomon Islands', '所罗门群岛']],
+  ['SCR', 2, 'Seychellois Rupee', '塞舌尔卢比', ['Seychelles', '塞舌尔']],
+  ['SDG', 2, 'Sudanese Pound', '苏丹镑', ['Sudan', '苏丹']],
+  ['SEK', 2, 'Swedish Krona', '瑞典克朗', ['Sweden', '瑞典']],
+  ['SGD', 2, 'Singapore Dollar', '新加坡元', ['Singapore', '新加坡']],
+  ['SHP', 2, 'Saint Helena Pound', '圣赫勒拿镑', ['Saint Helena', '圣赫勒拿']],
+  ['SLE', 2, 'Sierra Leonean Leone', '塞拉利昂利昂', ['Sierra Leone', '塞拉利昂']],
+  ['SOS', 2, 'Somali Shilling', '索马里先令', ['Somalia', '索马里']],
+  ['SRD', 2, 'Surinamese Dollar', '苏里南元', ['Suriname', '苏里南']],
+  ['SSP', 2, 'South Sudanese Pound', '南苏丹镑', ['South Sudan', '南苏丹']],
+  ['STN', 2, 'Sao Tome and Principe Dobra', '圣多美和普林西比多布拉', ['Sao Tome and Principe', '圣多美和普林西比']],
+  ['SYP', 2, 'Syrian Pound', '叙利亚镑', ['Syria', '叙利亚']],
+  ['SZL', 2, 'Swazi Lilangeni', '斯威士兰里兰吉尼', ['Eswatini', 'Swaziland', '斯威士兰']],
+  ['THB', 2, 'Thai Baht', '泰铢', ['Thailand', '泰国']],
+  ['TJS', 2, 'Tajikistani Somoni', '塔吉克斯坦索莫尼', ['Tajikistan', '塔吉克斯坦']],
+  ['TMT', 2, 'Turkmenistani Manat', '土库曼斯坦马纳特', ['Turkmenistan', '土库曼斯坦']],
+  ['TND', 3, 'Tunisian Dinar', '突尼斯第纳尔', ['Tunisia', '突尼斯']],
+  ['TOP', 2, 'Tongan Paanga', '汤加潘加', ['Tonga', '汤加']],
+  ['TRY', 2, 'Turkish Lira', '土耳其里拉', ['Turkey', 'Turkiye', '土耳其']],
+  ['TTD', 2, 'Trinidad and Tobago Dollar', '特立尼达和多巴哥元', ['Trinidad and Tobago', '特立尼达和多巴哥']],
+  ['TWD', 2, 'New Taiwan Dollar', '新台币', ['Taiwan', '台湾']],
+  ['TZS', 2, 'Tanzanian Shilling', '坦桑尼亚先令', ['Tanzania', '坦桑尼亚']],
+  ['UAH', 2, 'Ukrainian Hryvnia', '乌克兰格里夫纳', ['Ukraine', '乌克兰']],
+  ['UGX', 0, 'Ugandan Shilling', '乌干达先令', ['Uganda', '乌干达']],
+  [
+    'USD',
+    2,
+    'US Dollar',
+    '美元',
+    ['United States', 'United States of America', 'USA', 'US', 'America', 'Ecuador', 'El Salvador', 'Puerto Rico', '美国', '厄瓜多尔', '萨尔瓦多'],
+  ],
+  ['UYU', 2, 'Uruguayan Peso', '乌拉圭比索', ['Uruguay', '乌拉圭']],
+  ['UZS', 2, 'Uzbekistani Som', '乌兹别克斯坦苏姆', ['Uzbekistan', '乌兹别克斯坦']],
+  ['VES', 2, 'Venezuelan Bolivar', '委内瑞拉玻利瓦尔', ['Venezuela', '委内瑞拉']],
+  ['VND', 0, 'Vietnamese Dong', '越南盾', ['Vietnam', 'Viet Nam', '越南']],
+  ['VUV', 0, 'Vanuatu Vatu', '瓦努阿图瓦图', ['Vanuatu', '瓦努阿图']],
+  ['WST', 2, 'Samoan Tala', '萨摩亚塔拉', ['Samoa', '萨摩亚']],
+  [
+    'XAF',
+    0,
+    'Central African CFA Franc',
+    '中非法郎',
+    ['Cameroon', 'Central African Republic', 'Chad', 'Republic of the Congo', 'Equatorial Guinea', 'Gabon', '喀麦隆', '中非', '乍得', '刚果（布）', '赤道几内亚', '加蓬'],
+  ],
+  ['XCD', 2, 'East Caribbean Dollar', '东加勒比元', ['Antigua and Barbuda', 'Dominica', 'Grenada', 'Saint Lucia', 'Saint Kitts and Nevis', 'Saint Vincent and the Grenadines', '安提瓜和巴布达', '多米尼克', '格林纳达', '圣卢西亚']],
+  [
+    'XOF',
+    0,
+    'West African CFA Franc',
+    '西非法郎',
+    ['Benin', 'Burkina Faso', "Cote d'Ivoire", 'Ivory Coast', 'Guinea-Bissau', 'Mali', 'Niger', 'Senegal', 'Togo', '贝宁', '布基纳法索', '科特迪瓦', '几内亚比绍', '马里', '尼日尔', '塞内加尔', '多哥'],
+  ],
+  ['XPF', 0, 'CFP Franc', '太平洋法郎', ['French Polynesia', 'New Caledonia', 'Wallis and Futuna', '法属波利尼西亚', '新喀里多尼亚']],
+  ['YER', 2, 'Yemeni Rial', '也门里亚尔', ['Yemen', '也门']],
+  ['ZAR', 2, 'South African Rand', '南非兰特', ['South Africa', '南非']],
+  ['ZMW', 2, 'Zambian Kwacha', '赞比亚克瓦查', ['Zambia', '赞比亚']],
+  ['ZWG', 2, 'Zimbabwe Gold', '津巴布韦金', ['Zimbabwe', '津巴布韦']],
+];
+
+export const CURRENCIES: CurrencyInfo[] = ROWS.map(([code, minorUnits, name, nameZh, countries]) => ({
+  code,
+  minorUnits,
+  name,
+  nameZh,
+  countries,
+}));
+
+const BY_CODE = new Map(CURRENCIES.map(currency => [currency.code, currency]));
+
+export function getCurrency(code: string): CurrencyInfo | undefined {
+  return BY_CODE.get(code.toUpperCase());
+}
+
+/**
+ * Common names and slang that are not the official currency name, mapped
+ * to codes. Keys are lower case.
+ */
+export const CURRENCY_ALIASES: Record<string, string> = {
+  yuan: 'CNY',
+  renminbi: 'CNY',
+  rmb: 'CNY',
+  元: 'CNY',
+  块: 'CNY',
+  人民币元: 'CNY',
+  dollar: 'USD',
+  buck: 'USD',
+  greenback: 'USD',
+  美金: 'USD',
+  euro: 'EUR',
+  pound: 'GBP',
+  sterling: 'GBP',
+  'pound sterling': 'GBP',
+  yen: 'JPY',
+  円: 'JPY',
+  日圆: 'JPY',
+  won: 'KRW',
+  韩币: 'KRW',
+  'swiss franc': 'CHF',
+  franc: 'CHF',
+  瑞郎: 'CHF',
+  rupee: 'INR',
+  ruble: 'RUB',
+  rouble: 'RUB',
+  卢布: 'RUB',
+  baht: 'THB',
+  ringgit: 'MYR',
+  马币: 'MYR',
+  real: 'BRL',
+  lira: 'TRY',
+  rand: 'ZAR',
+  dirham: 'AED',
+  riyal: 'SAR',
+  dong: 'VND',
+  rupiah: 'IDR',
+  shekel: 'ILS',
+  zloty: 'PLN',
+  forint: 'HUF',
+  peso: 'MXN',
+  港元: 'HKD',
+  港纸: 'HKD',
+  台币: 'TWD',
+  澳元: 'AUD',
+  澳币: 'AUD',
+  加元: 'CAD',
+  加币: 'CAD',
+  新币: 'SGD',
+  纽币: 'NZD',
+  新西兰币: 'NZD',
+  泰币: 'THB',
+  澳门币: 'MOP',
+  葡币: 'MOP',
+};
@@ -0,0 +1,12 @@
+import { getCurrency } from './iso4217';
+
+export function minorUnits(code: string): number {
+  return getCurrency(code)?.minorUnits ?? 2;
+}
+
+/**
+ * Rounds an amount to the number of decimals used by the currency.
+ */
+export function roundAmount(amount: number, code: string): number {
+  return Number(amount.toFixed(minorUnits(code)));
+}
@@ -0,0 +1,178 @@
+import { ErrorCode, ToolError } from '../errors';
+import { fetchJson } from '../http';
+
+/**
+ * Exchange rates for one base currency at one point in time.
+ */
+export interface RateSnapshot {
+  base: string;
+  /** Name of the provider that served the rates. */
+  source: string;
+  /** ISO date (YYYY-MM-DD) the rates apply to. */
+  date: string;
+  rates: Record<string, number>;
+  /** When the provider last refreshed the rates, as reported upstream. */
+  updatedAt: string;
+  /** When the provider expects to publish new rates, if known. */
+  nextUpdateAt?: string;
+}
+
+export interface RatePoint {
+  date: string;
+  rates: Record<string, number>;
+}
+
+export interface RateProvider {
+  readonly name: string;
+  getLatest(base: string): Promise<RateSnapshot>;
+}
+
+export interface HistoricalRateProvider extends RateProvider {
+  getHistorical(base: string, date: string): Promise<RateSnapshot>;
+  /** Daily rates between `start` and `end` inclusive, oldest first. */
+  getSeries(base: string, symbols: string[], start: string, end: string): Promise<RatePoint[]>;
+}
+
+interface OpenErApiResponse {
+  result: string;
+  'error-type'?: string;
+  base_code: string;
+  rates: Record<string, number>;
+  time_last_update_utc: string;
+  time_next_update_utc: string;
+}
+
+/**
+ * Maps open.er-api `error-type` values to tool errors.
+ */
+function openErApiError(errorType: string | undefined, base: string): ToolError {
+  switch (errorType) {
+    case 'unsupported-code':
+      return new ToolError(ErrorCode.NOT_FOUND, `Currency '${base}' not found`, { currency: base });
+    case 'malformed-request':
+      return new ToolError(ErrorCode.INVALID_INPUT, `Invalid exchange rate request for '${base}'`, { errorType });
+    case 'quota-reached':
+      return new ToolError(ErrorCode.RATE_LIMITED, 'Exchange rate provider quota reached', { errorType });
+    default:
+      return new ToolError(ErrorCode.UPSTREAM_INVALID_RESPONSE, `Failed to fetch exchange rate for ${base}`, { errorType });
+  }
+}
+
+/**
+ * open.er-api.com: free, covers ~160 currencies, latest rates only,
+ * refreshed once a day.
+ */
+export class OpenErApiProvider implements RateProvider {
+  readonly name = 'open.er-api.com';
+
+  async getLatest(base: string): Promise<RateSnapshot> {
+    const data = await fetchJson<OpenErApiResponse>(`https://open.er-api.com/v6/latest/${base}`, { service: this.name });
+    if (data.result !== 'success') {
+      throw openErApiError(data['error-type'], base);
+    }
+
+    return {
+      base: data.base_code,
+      source: this.name,
+      date: new Date(data.time_last_update_utc).toISOString().slice(0, 10),
+      rates: data.rates,
+      updatedAt: data.time_last_update_utc,
+      nextUpdateAt: data.time_next_update_utc,
+    };
+  }
+}
+
+interface FrankfurterResponse {
+  base: string;
+  date: string;
+  rates: Record<string, number>;
+}
+
+interface FrankfurterSeriesResponse {
+  base: string;
+  start_date: string;
+  end_date: string;
+  rates: Record<string, Record<string, number>>;
+}
+
+/**
+ * Frankfurter (European Central Bank reference rates): ~30 major
+ * currencies, historical data back to 1999, business days only.
+ */
+export class FrankfurterProvider implements HistoricalRateProvider {
+  readonly name = 'frankfurter.dev';
+  private baseUrl = 'https://api.frankfurter.dev/v1';
+
+  private async fetchSnapshot(path: string, base: string): Promise<RateSnapshot> {
+    const data = await fetchJson<FrankfurterResponse>(`${this.baseUrl}/${path}?base=${base}`, { service: this.name });
+    return {
+      base: data.base,
+      source: this.name,
+      date: data.date,
+      rates: data.rates,
+      updatedAt: data.date,
+    };
+  }
+
+  getLatest(base: string) {
+    return this.fetchSnapshot('latest', base);
+  }
+
+  getHistorical(base: string, date: string) {
+    return this.fetchSnapshot(date, base);
+  }
+
+  async getSeries(base: string, symbols: string[], start: string, end: string): Promise<RatePoint[]> {
+    const data = await fetchJson<FrankfurterSeriesResponse>(
+      `${this.baseUrl}/${start}..${end}?base=${base}&symbols=${symbols.join(',')}`,
+      { service: this.name },
+    );
+    return Object.entries(data.rates)
+      .map(([date, rates]) => ({ date, rates }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+}
+
+/**
+ * Serves rates from in-memory data. Intended for tests and local
+ * development without network access.
+ */
+export class FixtureRateProvider implements HistoricalRateProvider {
+  readonly name = 'fixture';
+
+  /**
+   * @param history Rates keyed by date then base currency, e.g.
+   *   `{ '2025-01-02': { USD: { CNY: 7.3, EUR: 0.96 } } }`.
+   */
+  constructor(private history: Record<string, Record<string, Record<string, number>>>) {}
+
+  private snapshot(base: string, date: string): RateSnapshot {
+    const rates = this.history[date]?.[base];
+    if (!rates) {
+      throw new ToolError(ErrorCode.NOT_FOUND, `No fixture rates for ${base} on ${date}`, { base, date });
+    }
+    return { base, source: this.name, date, rates, updatedAt: date };
+  }
+
+  async getLatest(base: string) {
+    const dates = Object.keys(this.history).filter(date => this.history[date][base]).sort();
+    if (dates.length === 0) {
+      throw new ToolError(ErrorCode.NOT_FOUND, `No fixture rates for ${base}`, { base });
+    }
+    return this.snapshot(base, dates[dates.length - 1]);
+  }
+
+  async getHistorical(base: string, date: string) {
+    return this.snapshot(base, date);
+  }
+
+  async getSeries(base: string, symbols: string[], start: string, end: string) {
+    return Object.keys(this.history)
+      .filter(date => date >= start && date <= end && this.history[date][base])
+      .sort()
+      .map(date => ({
+        date,
+        rates: Object.fromEntries(symbols.map(symbol => [symbol, this.history[date][base][symbol]])),
+      }));
+  }
+}
@@ -0,0 +1,175 @@
+import { ErrorCode, ToolError, toToolError } from '../errors';
+import { MemoryCacheBackend, StorageCacheBackend, type CacheBackend } from '../rag/cache';
+import { storage } from '../storage';
+import { FrankfurterProvider, OpenErApiProvider, type RateProvider, type RateSnapshot } from './providers';
+import { BUNDLED_SNAPSHOT } from './snapshot';
+
+/** Cache lifetime when the provider does not announce its next update. */
+const DEFAULT_TTL_SECONDS = 3600;
+/** How long last-known snapshots are kept for fallback. */
+const LAST_KNOWN_TTL_SECONDS = 90 * 24 * 3600;
+/** Rates without a next-update time are considered stale after this age. */
+const STALE_AFTER_HOURS = 48;
+
+/**
+ * Caches latest rates per base currency until the provider's announced
+ * next update. Cache failures are treated as misses.
+ */
+export class CachingRateProvider implements RateProvider {
+  constructor(
+    private provider: RateProvider,
+    private backend: CacheBackend,
+  ) {}
+
+  get name() {
+    return this.provider.name;
+  }
+
+  async getLatest(base: string): Promise<RateSnapshot> {
+    const key = `latest:${this.provider.name}:${base}`;
+    const cached = await this.backend.get<RateSnapshot>(key).catch(() => undefined);
+    if (cached) return cached;
+
+    const snapshot = await this.provider.getLatest(base);
+    const untilNextUpdate = snapshot.nextUpdateAt ? (Date.parse(snapshot.nextUpdateAt) - Date.now()) / 1000 : NaN;
+    const ttl = Number.isFinite(untilNextUpdate) && untilNextUpdate > 0 ? Math.ceil(untilNextUpdate) : DEFAULT_TTL_SECONDS;
+    await this.backend.set(key, snapshot, ttl).catch(() => undefined);
+    return snapshot;
+  }
+}
+
+/**
+ * Re-expresses a snapshot against another currency in it, e.g. USD rates
+ * as CNY rates.
+ */
+export function rebaseSnapshot(snapshot: RateSnapshot, base: string): RateSnapshot | undefined {
+  if (snapshot.base === base) return snapshot;
+  const baseRate = snapshot.rates[base];
+  if (!baseRate) return undefined;
+
+  const rates = Object.fromEntries(
+    Object.entries(snapshot.rates).map(([code, rate]) => [code, Number((rate / baseRate).toPrecision(8))]),
+  );
+  rates[snapshot.base] = Number((1 / baseRate).toPrecision(8));
+  rates[base] = 1;
+  return { ...snapshot, base, rates };
+}
+
+/**
+ * Last resort: the most recent rates any live provider returned, or the
+ * bundled snapshot when nothing has been recorded yet.
+ */
+export class LastKnownRateProvider implements RateProvider {
+  readonly name = 'last-known snapshot';
+
+  constructor(
+    private backend: CacheBackend,
+    private fallback: RateSnapshot = BUNDLED_SNAPSHOT,
+  ) {}
+
+  /** Source and update time of the snapshot last recorded for each base currency. */
+  private recorded = new Map<string, string>();
+
+  /**
+   * Stores a snapshot in the background. Cached snapshots come back on every
+   * lookup, so one with the same source and update time as the last
+   * recorded is skipped.
+   */
+  record(snapshot: RateSnapshot) {
+    const version = `${snapshot.source}\u0000${snapshot.updatedAt}`;
+    if (this.recorded.get(snapshot.base) === version) return;
+    this.recorded.set(snapshot.base, version);
+    this.backend.set(`last-known:${snapshot.base}`, snapshot, LAST_KNOWN_TTL_SECONDS).catch(() => {
+      // Try again with the next lookup.
+      if (this.recorded.get(snapshot.base) === version) this.recorded.delete(snapshot.base);
+    });
+  }
+
+  async getLatest(base: string): Promise<RateSnapshot> {
+    const recorded = await this.backend.get<RateSnapshot>(`last-known:${base}`).catch(() => undefined);
+    const snapshot = recorded ?? rebaseSnapshot(this.fallback, base);
+    if (!snapshot) {
+      throw new ToolError(ErrorCode.NOT_FOUND, `No last-known rates for '${base}'`, { currency: base });
+    }
+    return { ...snapshot, source: `${this.name} (${snapshot.source})` };
+  }
+}
+
+/**
+ * Tries providers in order and returns the first success. Live results are
+ * recorded in `lastKnown`, which is consulted after every provider failed.
+ */
+export class RateProviderChain implements RateProvider {
+  readonly name = 'provider chain';
+
+  constructor(
+    private providers: RateProvider[],
+    private lastKnown?: LastKnownRateProvider,
+  ) {}
+
+  async getLatest(base: string): Promise<RateSnapshot> {
+    const failures: ToolError[] = [];
+    const attempts: Array<{ provider: string; code: string; message: string }> = [];
+
+    for (const provider of this.providers) {
+      try {
+        const snapshot = await provider.getLatest(base);
+        this.lastKnown?.record(snapshot);
+        return snapshot;
+      } catch (error) {
+        const toolError = toToolError(error, `Rates from ${provider.name}`);
+        failures.push(toolError);
+        attempts.push({ provider: provider.name, code: toolError.code, message: toolError.message });
+      }
+    }
+
+    // An unknown currency is not an outage; don't paper over it with old rates.
+    if (failures.length > 0 && failures.every(error => error.code === ErrorCode.NOT_FOUND)) {
+      throw failures[0];
+    }
+
+    if (this.lastKnown) {
+      try {
+        return await this.lastKnown.getLatest(base);
+      } catch {
+        // Fall through to report the live provider failures.
+      }
+    }
+
+    throw new ToolError(
+      failures[0]?.code ?? ErrorCode.INTERNAL,
+      `All exchange rate providers failed for ${base}`,
+      { attempts },
+    );
+  }
+}
+
+export interface Freshness {
+  /** True once the provider's next update time has passed, or the rates are old. */
+  stale: boolean;
+  ageHours: number;
+}
+
+export function getFreshness(snapshot: RateSnapshot, now = Date.now()): Freshness {
+  const updatedAt = Date.parse(snapshot.updatedAt);
+  const ageHours = Number.isNaN(updatedAt) ? 0 : Math.max(0, (now - updatedAt) / 3_600_000);
+  const nextUpdateAt = snapshot.nextUpdateAt ? Date.parse(snapshot.nextUpdateAt) : NaN;
+  const stale = Number.isNaN(nextUpdateAt) ? ageHours > STALE_AFTER_HOURS : now > nextUpdateAt;
+  return { stale, ageHours: Number(ageHours.toFixed(1)) };
+}
+
+const cacheBackend: CacheBackend = storage
+  ? new StorageCacheBackend(storage, 'currency_rate_cache')
+  : new MemoryCacheBackend();
+
+/**
+ * Default source of latest rates: open.er-api.com, then Frankfurter, then the
+ * last-known snapshot.
+ */
+export const latestRates = new RateProviderChain(
+  [
+    new CachingRateProvider(new OpenErApiProvider(), cacheBackend),
+    new CachingRateProvider(new FrankfurterProvider(), cacheBackend),
+  ],
+  new LastKnownRateProvider(cacheBackend),
+);
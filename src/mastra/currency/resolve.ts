@@ -0,0 +1,75 @@
+import { editDistance } from '../editDistance';
+import { ErrorCode, ToolError } from '../errors';
+import { CURRENCIES, CURRENCY_ALIASES, getCurrency } from './iso4217';
+
+const MAX_SUGGESTIONS = 3;
+
+function normalizeName(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/^the /, '')
+    .replace(/ currency$/, '');
+}
+
+/** Lower-cased codes, names, countries and aliases mapped to codes. */
+const LOOKUP = new Map<string, string>();
+for (const currency of CURRENCIES) {
+  for (const key of [currency.code, currency.name, currency.nameZh, ...currency.countries]) {
+    LOOKUP.set(normalizeName(key), currency.code);
+  }
+}
+for (const [alias, code] of Object.entries(CURRENCY_ALIASES)) {
+  LOOKUP.set(alias, code);
+}
+
+function lookup(key: string): string | undefined {
+  // "Swiss francs" -> "swiss franc", "yens" -> "yen"
+  return LOOKUP.get(key) ?? (key.endsWith('s') ? LOOKUP.get(key.slice(0, -1)) : undefined);
+}
+
+/**
+ * Known currencies closest to `key` by edit distance.
+ */
+export function suggestCurrencies(value: string): string[] {
+  const key = normalizeName(value);
+  // Allow one edit for codes and short names, more for longer names.
+  const maxDistance = Math.max(1, Math.floor(key.length / 4));
+  const best = new Map<string, number>();
+
+  for (const [candidate, code] of LOOKUP) {
+    if (Math.abs(candidate.length - key.length) > maxDistance) continue;
+    const distance = editDistance(key, candidate);
+    if (distance <= maxDistance && distance < (best.get(code) ?? Infinity)) {
+      best.set(code, distance);
+    }
+  }
+
+  return [...best]
+    .sort((a, b) => a[1] - b[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(([code]) => code);
+}
+
+/**
+ * Resolves an ISO 4217 code, currency name, alias or country name (English
+ * or Chinese) to a currency code. Unknown input fails with INVALID_INPUT and
+ * near-match suggestions in `details.suggestions`.
+ */
+export function resolveCurrency(value: string, field: string): string {
+  const key = normalizeName(value);
+  const code = key ? lookup(key) : undefined;
+  if (code) return code;
+
+  const suggestions = suggestCurrencies(value).map(code => {
+    const currency = getCurrency(code)!;
+    return { code, name: currency.name, nameZh: currency.nameZh };
+  });
+  const hint = suggestions.length ? ` Did you mean ${suggestions.map(s => s.code).join(', ')}?` : '';
+  throw new ToolError(ErrorCode.INVALID_INPUT, `Unknown currency '${value}'.${hint}`, {
+    field,
+    value,
+    suggestions,
+  });
+}
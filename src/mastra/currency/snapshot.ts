@@ -0,0 +1,47 @@
+import type { RateSnapshot } from './providers';
+
+/**
+ * Approximate USD rates bundled with the app, used only when every live
+ * provider is unavailable and nothing newer has been cached.
+ */
+export const BUNDLED_SNAPSHOT: RateSnapshot = {
+  base: 'USD',
+  source: 'bundled snapshot',
+  date: '2025-10-01',
+  updatedAt: '2025-10-01T00:00:00Z',
+  rates: {
+    USD: 1,
+    AED: 3.6725,
+    AUD: 1.52,
+    BRL: 5.33,
+    CAD: 1.39,
+    CHF: 0.8,
+    CNY: 7.12,
+    CZK: 20.7,
+    DKK: 6.36,
+    EUR: 0.852,
+    GBP: 0.744,
+    HKD: 7.78,
+    HUF: 333,
+    IDR: 16650,
+    ILS: 3.31,
+    INR: 88.8,
+    JPY: 147.9,
+    KRW: 1403,
+    MXN: 18.35,
+    MYR: 4.21,
+    NOK: 9.98,
+    NZD: 1.73,
+    PHP: 58.1,
+    PLN: 3.63,
+    RUB: 82,
+    SAR: 3.75,
+    SEK: 9.41,
+    SGD: 1.29,
+    THB: 32.4,
+    TRY: 41.6,
+    TWD: 30.5,
+    VND: 26350,
+    ZAR: 17.3,
+  },
+};
@@ -0,0 +1,27 @@
+import './env';
+import { createClient, type Client } from '@libsql/client';
+import { ErrorCode, ToolError } from './errors';
+
+let client: Client | undefined;
+
+/**
+ * LibSQL connection for tables the app manages itself, where rows are
+ * queried and updated individually rather than through the key lookups of
+ * the Mastra storage. Created on first use: on Workers the client only
+ * accepts http(s) and ws(s) URLs, so there is no in-process fallback and a
+ * missing TURSO_DATABASE_URL fails the call instead of the worker's startup.
+ */
+export function getDatabase(): Client {
+  if (!client) {
+    const url = process.env.TURSO_DATABASE_URL;
+    if (!url) {
+      throw new ToolError(
+        ErrorCode.INTERNAL,
+        'No database configured; set TURSO_DATABASE_URL (a file: URL works for local development)',
+        { setting: 'TURSO_DATABASE_URL' },
+      );
+    }
+    client = createClient({ url, authToken: process.env.TURSO_AUTH_TOKEN });
+  }
+  return client;
+}
@@ -0,0 +1,5 @@
+import dotenv from "dotenv";
+
+// Imported for its side effect before any module that reads process.env
+// at load time (storage, knowledge base configuration).
+dotenv.config({ path: "../../.env" });
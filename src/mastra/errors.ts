@@ -0,0 +1,98 @@
+import type { RAGError } from '../types';
+
+/**
+ * Stable error codes shared by all tools. Clients branch on these, so
+ * existing values must not be renamed.
+ */
+export const ErrorCode = {
+  INVALID_INPUT: 'INVALID_INPUT',
+  NOT_FOUND: 'NOT_FOUND',
+  UPSTREAM_HTTP: 'UPSTREAM_HTTP',
+  UPSTREAM_INVALID_RESPONSE: 'UPSTREAM_INVALID_RESPONSE',
+  TIMEOUT: 'TIMEOUT',
+  RATE_LIMITED: 'RATE_LIMITED',
+  POLICY_VIOLATION: 'POLICY_VIOLATION',
+  INTERNAL: 'INTERNAL',
+} as const;
+
+export type ErrorCode = (typeof ErrorCode)[keyof typeof ErrorCode];
+
+const RETRYABLE_CODES = new Set<ErrorCode>([ErrorCode.UPSTREAM_HTTP, ErrorCode.TIMEOUT, ErrorCode.RATE_LIMITED]);
+
+/**
+ * Error thrown by tools. Serializes to the `RAGError` shape so agents and
+ * API clients receive a machine-readable failure.
+ */
+export class ToolError extends Error implements RAGError {
+  readonly code: ErrorCode;
+  readonly details?: any;
+  readonly timestamp: string;
+
+  constructor(code: ErrorCode, message: string, details?: any) {
+    super(message);
+    this.name = 'ToolError';
+    this.code = code;
+    this.details = details;
+    this.timestamp = new Date().toISOString();
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.has(this.code);
+  }
+
+  toJSON(): RAGError & { retryable: boolean } {
+    return {
+      code: this.code,
+      message: this.message,
+      details: this.details,
+      timestamp: this.timestamp,
+      retryable: this.retryable,
+    };
+  }
+}
+
+export function isToolError(error: unknown): error is ToolError {
+  return error instanceof ToolError;
+}
+
+/**
+ * Maps an upstream HTTP status to an error code.
+ */
+export function codeForStatus(status: number): ErrorCode {
+  if (status === 404) return ErrorCode.NOT_FOUND;
+  if (status === 429) return ErrorCode.RATE_LIMITED;
+  if (status === 408 || status === 504) return ErrorCode.TIMEOUT;
+  if (status === 400 || status === 422) return ErrorCode.INVALID_INPUT;
+  return ErrorCode.UPSTREAM_HTTP;
+}
+
+/**
+ * Wraps anything thrown into a ToolError, keeping ToolErrors as they are.
+ */
+export function toToolError(error: unknown, context: string): ToolError {
+  if (error instanceof ToolError) return error;
+
+  const err = error as { name?: string; status?: unknown; message?: string } | null | undefined;
+  if (err?.name === 'TimeoutError' || err?.name === 'AbortError') {
+    return new ToolError(ErrorCode.TIMEOUT, `${context} timed out`);
+  }
+  if (typeof err?.status === 'number') {
+    return new ToolError(codeForStatus(err.status), `${context} failed: ${err.message}`, { status: err.status });
+  }
+  return new ToolError(ErrorCode.INTERNAL, `${context} failed: ${err?.message ?? String(error)}`);
+}
+
+/**
+ * Workflow runs keep only the message of a failed step. Steps throw the
+ * result of this so `fromStepError` can restore the error code.
+ */
+export function toStepError(error: unknown, context: string): Error {
+  const toolError = toToolError(error, context);
+  return new Error(`[${toolError.code}] ${toolError.message}`);
+}
+
+export function fromStepError(message: string): ToolError {
+  const match = /^\[([A-Z_]+)\] ([\s\S]*)$/.exec(message);
+  const code = Object.values(ErrorCode).find(value => value === match?.[1]);
+  return code ? new ToolError(code, match![2]) : new ToolError(ErrorCode.INTERNAL, message);
+}
@@ -0,0 +1,47 @@
+import { codeForStatus, ErrorCode, ToolError, toToolError } from './errors';
+
+export interface FetchOptions extends RequestInit {
+  /** Human-readable name of the upstream service, used in error messages. */
+  service: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/**
+ * fetch() that fails with a ToolError on network errors, timeouts and
+ * non-2xx responses.
+ */
+export async function fetchOrThrow(url: string, { service, timeoutMs = DEFAULT_TIMEOUT_MS, ...init }: FetchOptions): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: init.signal ?? AbortSignal.timeout(timeoutMs) });
+  } catch (error) {
+    throw toToolError(error, `Request to ${service}`);
+  }
+
+  if (!response.ok) throw httpError(response, service, url);
+
+  return response;
+}
+
+/**
+ * ToolError for a non-2xx response, carrying the status and any Retry-After.
+ */
+export function httpError(response: Pick<Response, 'status' | 'statusText'> & { headers: Pick<Headers, 'get'> }, service: string, url: string): ToolError {
+  const retryAfter = response.headers.get('retry-after');
+  return new ToolError(codeForStatus(response.status), `${service} responded with ${response.status} ${response.statusText}`, {
+    status: response.status,
+    url,
+    ...(retryAfter ? { retryAfter } : {}),
+  });
+}
+
+export async function fetchJson<T>(url: string, options: FetchOptions): Promise<T> {
+  const response = await fetchOrThrow(url, options);
+  try {
+    return (await response.json()) as T;
+  } catch {
+    throw new ToolError(ErrorCode.UPSTREAM_INVALID_RESPONSE, `${options.service} returned invalid JSON`, { url });
+  }
+}
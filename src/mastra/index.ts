@@ -1,23 +1,17 @@
-import dotenv from "dotenv";
+import "./env";
 import { Mastra } from "@mastra/core/mastra";
 import { createLogger } from "@mastra/core/logger";
 import { CloudflareDeployer } from "@mastra/deployer-cloudflare";
-import { LibSQLStore } from "@mastra/libsql";
 import { weatherAgent } from "./agents/weather";
 import { codeReviewAgent } from "./agents/code-review";
 import { translatorAgent } from "./agents/translator";
 import { currencyAgent } from "./agents/currency";
 import { summarizerAgent } from "./agents/summarizer";
 import { dailyPlannerAgent } from "./agents/daily-planner";
-
-dotenv.config({ path: "../../.env" });
-
-const storage = process.env.TURSO_DATABASE_URL
-  ? (new LibSQLStore({
-      url: process.env.TURSO_DATABASE_URL,
-      authToken: process.env.TURSO_AUTH_TOKEN,
-    }) as any)
-  : undefined;
+import { knowledgeBaseAgent } from "./agents/knowledge-base";
+import { batchIndexWorkflow } from "./workflows/batch-index";
+import { summarizePageWorkflow } from "./workflows/summarize-page";
+import { storage } from "./storage";
 
 export const mastra = new Mastra({
   agents: {
@@ -27,12 +21,17 @@ export const mastra = new Mastra({
     currencyAgent,
     summarizerAgent,
     dailyPlannerAgent,
+    knowledgeBaseAgent,
+  },
+  workflows: {
+    batchIndexWorkflow,
+    summarizePageWorkflow,
   },
   logger: createLogger({
     name: "Mastra",
     level: "info",
   }),
-  storage,
+  storage: storage as any,
   deployer: new CloudflareDeployer({
     scope: process.env.CLOUDFLARE_ACCOUNT_ID!,
     projectName: process.env.CLOUDFLARE_PROJECT_NAME || "faithcal-mastra-app",
@@ -0,0 +1,115 @@
+import { createHash } from 'crypto';
+import { REST_CATEGORIES, parseTime, type Priority, type Schedule, type ScheduleBlock } from './schedule';
+
+const PRODUCT_ID = '-//faithcal//Daily Planner//EN';
+/** iCalendar PRIORITY: 1 is highest, 9 lowest. */
+const ICS_PRIORITY: Record<Priority, number> = { critical: 1, important: 5, 'nice-to-have': 9 };
+const PRIORITY_LABEL: Record<Priority, string> = { critical: 'Critical', important: 'Important', 'nice-to-have': 'Nice-to-have' };
+/** Content lines are folded at 75 octets (RFC 5545 section 3.1). */
+const MAX_LINE_OCTETS = 75;
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function fold(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their limit.
+    if (octets + size > MAX_LINE_OCTETS - (lines.length ? 1 : 0)) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+}
+
+/** Offset of a time zone from UTC at an instant, in milliseconds. */
+function zoneOffset(instant: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second')) - instant;
+}
+
+/**
+ * Formats a wall-clock time on a date as an iCalendar DATE-TIME: in UTC
+ * when a time zone is given, so no VTIMEZONE definition is needed, and as
+ * floating local time otherwise.
+ */
+function dateTime(date: string, minutes: number, timezone?: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  let instant = Date.UTC(year, month - 1, day, 0, minutes);
+  if (timezone) {
+    // Correct by the offset twice so times near a DST change land on the right side of it.
+    const guess = instant - zoneOffset(instant, timezone);
+    instant -= zoneOffset(guess, timezone);
+  }
+  const iso = new Date(instant).toISOString().replace(/[-:]/g, '').slice(0, 15);
+  return timezone ? `${iso}Z` : iso;
+}
+
+/** The nth block with a title keeps its UID when it moves to another time. */
+function eventUid(date: string, title: string, occurrence: number): string {
+  return `${createHash('sha1').update(`${date}\u0000${title}\u0000${occurrence}`).digest('hex').slice(0, 16)}@daily-planner`;
+}
+
+function description(block: ScheduleBlock): string {
+  const lines = [`Priority: ${PRIORITY_LABEL[block.priority]}`, `Eisenhower quadrant: ${block.quadrant}`, `Category: ${block.category}`];
+  if (block.notes) lines.push('', block.notes);
+  return lines.join('\n');
+}
+
+/**
+ * Renders a schedule as an iCalendar file with one event per block.
+ * Event UIDs derive from the date and title, so importing a revised
+ * plan updates the events instead of duplicating them. Rest blocks
+ * are marked free time. Blocks that do not end after they start are
+ * left out, since calendars reject events with DTEND before DTSTART.
+ */
+export function scheduleToIcs(schedule: Schedule, now = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH', `X-WR-CALNAME:${escapeText(`Plan for ${schedule.date}`)}`];
+  if (schedule.timezone) lines.push(`X-WR-TIMEZONE:${schedule.timezone}`);
+
+  const occurrences = new Map<string, number>();
+  for (const block of schedule.blocks) {
+    const start = parseTime(block.start);
+    const end = parseTime(block.end);
+    if (end <= start) continue;
+    const occurrence = occurrences.get(block.title) ?? 0;
+    occurrences.set(block.title, occurrence + 1);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${eventUid(schedule.date, block.title, occurrence)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${dateTime(schedule.date, start, schedule.timezone)}`,
+      `DTEND:${dateTime(schedule.date, end, schedule.timezone)}`,
+      `SUMMARY:${escapeText(block.title)}`,
+      `DESCRIPTION:${escapeText(description(block))}`,
+      `CATEGORIES:${escapeText(block.category)}`,
+      `PRIORITY:${ICS_PRIORITY[block.priority]}`,
+      `TRANSP:${REST_CATEGORIES.has(block.category) ? 'TRANSPARENT' : 'OPAQUE'}`,
+    );
+    if (block.location) lines.push(`LOCATION:${escapeText(block.location)}`);
+    lines.push('END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,257 @@
+import { ErrorCode, ToolError } from '../errors';
+
+export const PRIORITIES = ['critical', 'important', 'nice-to-have'] as const;
+/**
+ * Eisenhower quadrants: do (urgent and important), schedule (important,
+ * not urgent), delegate (urgent, not important), eliminate (neither).
+ */
+export const QUADRANTS = ['do', 'schedule', 'delegate', 'eliminate'] as const;
+export const CATEGORIES = [
+  'deep-work', 'meeting', 'communication', 'admin', 'learning', 'personal', 'exercise', 'meal', 'break', 'buffer', 'other',
+] as const;
+
+export type Priority = (typeof PRIORITIES)[number];
+export type Quadrant = (typeof QUADRANTS)[number];
+export type Category = (typeof CATEGORIES)[number];
+
+/** Categories that are rest rather than work; they break up work stretches and do not count towards the workload. */
+export const REST_CATEGORIES: ReadonlySet<Category> = new Set(['meal', 'break', 'buffer']);
+
+export interface ScheduleBlock {
+  /** HH:MM, 24-hour clock. */
+  start: string;
+  /** HH:MM, 24-hour clock; 24:00 ends the block at midnight. */
+  end: string;
+  title: string;
+  priority: Priority;
+  quadrant: Quadrant;
+  category: Category;
+  notes?: string;
+  location?: string;
+}
+
+export interface Schedule {
+  /** YYYY-MM-DD. */
+  date: string;
+  /** IANA time zone the times are in; without one, calendars treat them as local time. */
+  timezone?: string;
+  /** The day's available hours; blocks outside them are reported. */
+  workingHours?: { start: string; end: string };
+  blocks: ScheduleBlock[];
+}
+
+export type ScheduleIssueKind = 'invalid-time' | 'overlap' | 'outside-hours' | 'over-allocation' | 'no-break';
+
+export interface ScheduleIssue {
+  kind: ScheduleIssueKind;
+  /** Errors make the schedule invalid; warnings are worth fixing but the plan still works. */
+  severity: 'error' | 'warning';
+  message: string;
+  /** Indexes into the returned, time-sorted blocks. */
+  blocks: number[];
+}
+
+export interface ScheduleSummary {
+  scheduledMinutes: number;
+  workMinutes: number;
+  restMinutes: number;
+  /** Unscheduled minutes within the working hours, or between the first and last block without them. */
+  freeMinutes: number;
+  byPriority: Record<Priority, number>;
+  byQuadrant: Record<Quadrant, number>;
+  byCategory: Partial<Record<Category, number>>;
+}
+
+export interface ScheduleValidation {
+  valid: boolean;
+  schedule: Schedule;
+  issues: ScheduleIssue[];
+  summary: ScheduleSummary;
+}
+
+export interface ValidationOptions {
+  /** Work minutes a day beyond which the schedule is over-allocated. */
+  maxWorkMinutes?: number;
+  /** Longest run of back-to-back work, in minutes, before a break is expected. */
+  maxStretchMinutes?: number;
+}
+
+const DEFAULT_MAX_WORK_MINUTES = 8 * 60;
+const DEFAULT_MAX_STRETCH_MINUTES = 150;
+/** Gaps shorter than this do not count as a break between work blocks. */
+const MIN_BREAK_MINUTES = 10;
+
+const TIME = /^(?:([01]?\d|2[0-3]):([0-5]\d)|24:00)$/;
+
+/** Minutes since midnight of an HH:MM time. */
+export function parseTime(time: string, field = 'time'): number {
+  const match = TIME.exec(time.trim());
+  if (!match) {
+    throw new ToolError(ErrorCode.INVALID_INPUT, `${field} must be an HH:MM time, got "${time}"`, { field, value: time });
+  }
+  return match[1] === undefined ? 24 * 60 : Number(match[1]) * 60 + Number(match[2]);
+}
+
+export function formatTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return hours ? `${hours}h${minutes % 60 ? ` ${minutes % 60}m` : ''}` : `${minutes}m`;
+}
+
+export function assertTimeZone(timezone: string): void {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    throw new ToolError(ErrorCode.INVALID_INPUT, `Unknown time zone "${timezone}"; use an IANA name such as Europe/Berlin`, { field: 'timezone', value: timezone });
+  }
+}
+
+/** Today's date in a time zone, as YYYY-MM-DD. */
+export function todayIn(timezone?: string): string {
+  if (timezone) assertTimeZone(timezone);
+  return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(new Date());
+}
+
+function emptyTotals<K extends string>(keys: readonly K[]): Record<K, number> {
+  return Object.fromEntries(keys.map(key => [key, 0])) as Record<K, number>;
+}
+
+function label(block: ScheduleBlock): string {
+  return `${block.start}-${block.end} "${block.title}"`;
+}
+
+/**
+ * Sorts a schedule's blocks by start time, normalizing their times, and
+ * checks them: times must be valid and end after they start, blocks must
+ * not overlap or fall outside the working hours, total time must fit the
+ * day, and work must not exceed the daily limit or run too long without a
+ * break.
+ */
+export function validateSchedule(input: Schedule, options: ValidationOptions = {}): ScheduleValidation {
+  const maxWorkMinutes = options.maxWorkMinutes ?? DEFAULT_MAX_WORK_MINUTES;
+  const maxStretchMinutes = options.maxStretchMinutes ?? DEFAULT_MAX_STRETCH_MINUTES;
+  const issues: ScheduleIssue[] = [];
+  if (input.timezone) assertTimeZone(input.timezone);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.date) || Number.isNaN(Date.parse(input.date))) {
+    throw new ToolError(ErrorCode.INVALID_INPUT, `date must be a YYYY-MM-DD date, got "${input.date}"`, { field: 'date', value: input.date });
+  }
+
+  const timed = input.blocks
+    .map(block => ({ block, start: parseTime(block.start, `start of "${block.title}"`), end: parseTime(block.end, `end of "${block.title}"`) }))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+  const blocks = timed.map(({ block, start, end }) => ({ ...block, start: formatTime(start), end: formatTime(end) }));
+  const schedule: Schedule = { ...input, blocks };
+
+  timed.forEach(({ block, start, end }, index) => {
+    if (end <= start) {
+      issues.push({ kind: 'invalid-time', severity: 'error', message: `${label(block)} does not end after it starts`, blocks: [index] });
+    }
+  });
+  const valid = timed.map((entry, index) => ({ ...entry, index })).filter(({ start, end }) => end > start);
+
+  for (let i = 0; i < valid.length; i++) {
+    for (let j = i + 1; j < valid.length && valid[j].start < valid[i].end; j++) {
+      const overlap = Math.min(valid[i].end, valid[j].end) - valid[j].start;
+      issues.push({
+        kind: 'overlap',
+        severity: 'error',
+        message: `${label(valid[i].block)} and ${label(valid[j].block)} overlap by ${formatDuration(overlap)}`,
+        blocks: [valid[i].index, valid[j].index],
+      });
+    }
+  }
+
+  let window: { start: number; end: number } | undefined;
+  if (input.workingHours) {
+    window = { start: parseTime(input.workingHours.start, 'workingHours.start'), end: parseTime(input.workingHours.end, 'workingHours.end') };
+    if (window.end <= window.start) {
+      throw new ToolError(ErrorCode.INVALID_INPUT, 'workingHours must end after they start', { workingHours: input.workingHours });
+    }
+    const outside = valid.filter(({ start, end }) => start < window!.start || end > window!.end);
+    for (const { block, index } of outside) {
+      issues.push({
+        kind: 'outside-hours',
+        severity: 'warning',
+        message: `${label(block)} falls outside the working hours ${input.workingHours.start}-${input.workingHours.end}`,
+        blocks: [index],
+      });
+    }
+  }
+
+  const summary: ScheduleSummary = {
+    scheduledMinutes: 0,
+    workMinutes: 0,
+    restMinutes: 0,
+    freeMinutes: 0,
+    byPriority: emptyTotals(PRIORITIES),
+    byQuadrant: emptyTotals(QUADRANTS),
+    byCategory: {},
+  };
+  for (const { block, start, end } of valid) {
+    const minutes = end - start;
+    summary.scheduledMinutes += minutes;
+    if (REST_CATEGORIES.has(block.category)) summary.restMinutes += minutes;
+    else summary.workMinutes += minutes;
+    summary.byPriority[block.priority] += minutes;
+    summary.byQuadrant[block.quadrant] += minutes;
+    summary.byCategory[block.category] = (summary.byCategory[block.category] ?? 0) + minutes;
+  }
+
+  // Free time counts each minute once, so overlapping blocks do not make it negative.
+  const span = window ?? (valid.length ? { start: valid[0].start, end: Math.max(...valid.map(({ end }) => end)) } : { start: 0, end: 0 });
+  let covered = 0;
+  let cursor = span.start;
+  for (const { start, end } of valid) {
+    const from = Math.max(start, cursor);
+    const to = Math.min(end, span.end);
+    if (to > from) covered += to - from;
+    cursor = Math.max(cursor, end);
+  }
+  summary.freeMinutes = span.end - span.start - covered;
+
+  if (window && summary.scheduledMinutes > window.end - window.start) {
+    issues.push({
+      kind: 'over-allocation',
+      severity: 'error',
+      message: `${formatDuration(summary.scheduledMinutes)} is scheduled but the working hours only have ${formatDuration(window.end - window.start)}`,
+      blocks: [],
+    });
+  }
+  if (summary.workMinutes > maxWorkMinutes) {
+    issues.push({
+      kind: 'over-allocation',
+      severity: 'warning',
+      message: `${formatDuration(summary.workMinutes)} of work is planned, more than the ${formatDuration(maxWorkMinutes)} limit for a day; move nice-to-have or delegate tasks to another day`,
+      blocks: valid.filter(({ block }) => !REST_CATEGORIES.has(block.category)).map(({ index }) => index),
+    });
+  }
+
+  let stretch: typeof valid = [];
+  const closeStretch = () => {
+    const minutes = stretch.length ? stretch[stretch.length - 1].end - stretch[0].start : 0;
+    if (minutes > maxStretchMinutes) {
+      issues.push({
+        kind: 'no-break',
+        severity: 'warning',
+        message: `${formatDuration(minutes)} of work from ${formatTime(stretch[0].start)} to ${formatTime(stretch[stretch.length - 1].end)} has no break of at least ${MIN_BREAK_MINUTES} minutes`,
+        blocks: stretch.map(({ index }) => index),
+      });
+    }
+    stretch = [];
+  };
+  for (const entry of valid) {
+    if (REST_CATEGORIES.has(entry.block.category)) {
+      closeStretch();
+      continue;
+    }
+    const previous = stretch[stretch.length - 1];
+    if (previous && entry.start - previous.end >= MIN_BREAK_MINUTES) closeStretch();
+    stretch.push(entry);
+  }
+  closeStretch();
+
+  return { valid: !issues.some(issue => issue.severity === 'error'), schedule, issues, summary };
+}
@@ -0,0 +1,365 @@
+import { ErrorCode, ToolError } from '../errors';
+import {
+  REST_CATEGORIES,
+  formatDuration,
+  formatTime,
+  parseTime,
+  todayIn,
+  validateSchedule,
+  type Category,
+  type Priority,
+  type Quadrant,
+  type ScheduleBlock,
+  type ScheduleValidation,
+} from './schedule';
+
+export type Energy = 'high' | 'medium' | 'low';
+
+export interface PlanTask {
+  title: string;
+  durationMinutes: number;
+  priority: Priority;
+  /** Energy the task needs; high-energy work goes to peak hours. */
+  energy: Energy;
+  /** HH:MM by which the task must be finished. */
+  deadline?: string;
+  /** HH:MM before which the task cannot start. */
+  earliestStart?: string;
+  /** Derived from priority and deadline when omitted. */
+  quadrant?: Quadrant;
+  category?: Category;
+  /** Allows the task to be split into chunks of at least MIN_CHUNK_MINUTES. */
+  splittable?: boolean;
+  notes?: string;
+}
+
+export interface FixedEvent {
+  title: string;
+  start: string;
+  end: string;
+  category?: Category;
+  priority?: Priority;
+  quadrant?: Quadrant;
+  location?: string;
+  notes?: string;
+}
+
+export interface FixedBreak {
+  start: string;
+  end: string;
+  title?: string;
+  category?: Category;
+}
+
+export interface PlanRequest {
+  date?: string;
+  timezone?: string;
+  workingHours: { start: string; end: string };
+  tasks: PlanTask[];
+  fixedEvents?: FixedEvent[];
+  breaks?: FixedBreak[];
+  /** Minutes kept free around every task and fixed event. */
+  bufferMinutes?: number;
+  /** Longest run of back-to-back work before a break is required; single longer tasks are still allowed. */
+  maxFocusMinutes?: number;
+  /** Shortest gap that counts as a break between work blocks. */
+  breakMinutes?: number;
+  /** Peak-energy hours; defaults to the first three working hours. */
+  peakHours?: { start: string; end: string };
+  /** Low-energy hours; defaults to 13:00-15:00. */
+  lowEnergyHours?: { start: string; end: string };
+}
+
+/**
+ * deadline: not enough free time before the deadline; capacity: not enough
+ * free time in the day for a task without one.
+ */
+export type UnscheduledReason = 'deadline' | 'capacity' | 'too-long' | 'no-room';
+
+export interface UnscheduledTask {
+  title: string;
+  durationMinutes: number;
+  priority: Priority;
+  reason: UnscheduledReason;
+  message: string;
+}
+
+export interface PlanResult extends ScheduleValidation {
+  /** True when every task was placed and the result has no validation errors. */
+  feasible: boolean;
+  unscheduled: UnscheduledTask[];
+  /** Free working minutes once fixed events with their buffers and breaks are taken out. */
+  capacityMinutes: number;
+  requestedMinutes: number;
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+interface Placed extends Interval {
+  work: boolean;
+}
+
+const DEFAULT_BUFFER_MINUTES = 10;
+const DEFAULT_MAX_FOCUS_MINUTES = 120;
+const DEFAULT_BREAK_MINUTES = 15;
+const MIN_CHUNK_MINUTES = 30;
+const PRIORITY_RANK: Record<Priority, number> = { critical: 0, important: 1, 'nice-to-have': 2 };
+const ENERGY_RANK: Record<Energy, number> = { high: 0, medium: 1, low: 2 };
+/** Cost of doing a task needing [row] energy in a slot of [column] energy. */
+const ENERGY_COST: Record<Energy, Record<Energy, number>> = {
+  high: { high: 0, medium: 1, low: 3 },
+  medium: { high: 0.5, medium: 0, low: 1 },
+  low: { high: 1, medium: 0.25, low: 0 },
+};
+
+function range(value: { start: string; end: string }, field: string): Interval {
+  const interval = { start: parseTime(value.start, `${field}.start`), end: parseTime(value.end, `${field}.end`) };
+  if (interval.end <= interval.start) {
+    throw new ToolError(ErrorCode.INVALID_INPUT, `${field} must end after it starts`, { field, value });
+  }
+  return interval;
+}
+
+function subtract(free: Interval[], from: number, to: number): Interval[] {
+  return free.flatMap(interval => {
+    if (to <= interval.start || from >= interval.end) return [interval];
+    return [
+      { start: interval.start, end: from },
+      { start: to, end: interval.end },
+    ].filter(piece => piece.end > piece.start);
+  });
+}
+
+/** Urgent means due today; important means anything but nice-to-have. */
+function deriveQuadrant(task: PlanTask): Quadrant {
+  const urgent = task.deadline !== undefined;
+  const important = task.priority !== 'nice-to-have';
+  return urgent ? (important ? 'do' : 'delegate') : important ? 'schedule' : 'eliminate';
+}
+
+/**
+ * Places tasks into a day deterministically: fixed events and breaks are
+ * blocked out first, then tasks are placed one at a time, most important
+ * first (then earliest deadline, highest energy, longest), each into the
+ * free slot before its deadline that best matches its energy, preferring
+ * earlier slots. Buffers are kept around every block, and work runs no
+ * longer than the focus limit without a break. Splittable tasks that fit
+ * no single slot are spread over several. Tasks that cannot be placed are
+ * returned with the reason, and the result is checked with
+ * validateSchedule.
+ */
+export function planSchedule(request: PlanRequest): PlanResult {
+  const buffer = request.bufferMinutes ?? DEFAULT_BUFFER_MINUTES;
+  const maxFocus = request.maxFocusMinutes ?? DEFAULT_MAX_FOCUS_MINUTES;
+  const breakMinutes = request.breakMinutes ?? DEFAULT_BREAK_MINUTES;
+  const hours = range(request.workingHours, 'workingHours');
+  const peak = request.peakHours ? range(request.peakHours, 'peakHours') : { start: hours.start, end: Math.min(hours.end, hours.start + 180) };
+  const low = range(request.lowEnergyHours ?? { start: '13:00', end: '15:00' }, 'lowEnergyHours');
+  const energyAt = (minute: number): Energy => (minute >= peak.start && minute < peak.end ? 'high' : minute >= low.start && minute < low.end ? 'low' : 'medium');
+
+  const blocks: ScheduleBlock[] = [];
+  const placed: Placed[] = [];
+  let free: Interval[] = [hours];
+
+  for (const [index, event] of (request.fixedEvents ?? []).entries()) {
+    const { start, end } = range(event, `fixedEvents[${index}]`);
+    const category = event.category ?? 'meeting';
+    blocks.push({
+      start: formatTime(start),
+      end: formatTime(end),
+      title: event.title,
+      priority: event.priority ?? 'important',
+      quadrant: event.quadrant ?? 'do',
+      category,
+      location: event.location,
+      notes: event.notes,
+    });
+    placed.push({ start, end, work: !REST_CATEGORIES.has(category) });
+    free = subtract(free, start - buffer, end + buffer);
+  }
+  for (const [index, rest] of (request.breaks ?? []).entries()) {
+    const { start, end } = range(rest, `breaks[${index}]`);
+    const category = rest.category ?? 'break';
+    blocks.push({ start: formatTime(start), end: formatTime(end), title: rest.title ?? 'Break', priority: 'important', quadrant: 'schedule', category });
+    placed.push({ start, end, work: !REST_CATEGORIES.has(category) });
+    free = subtract(free, start, end);
+  }
+  const dayFree = free;
+  const capacityMinutes = dayFree.reduce((sum, interval) => sum + interval.end - interval.start, 0);
+
+  /** Length of the work stretch a new block would join, counting gaps shorter than a break as continuous. */
+  const stretchWith = (start: number, end: number) => {
+    let from = start;
+    let to = end;
+    for (let grown = true; grown; ) {
+      grown = false;
+      for (const block of placed) {
+        if (!block.work || block.end <= from - breakMinutes || block.start >= to + breakMinutes) continue;
+        if (block.start < from || block.end > to) {
+          from = Math.min(from, block.start);
+          to = Math.max(to, block.end);
+          grown = true;
+        }
+      }
+    }
+    return to - from;
+  };
+
+  /** Energy mismatch of a slot averaged over its minutes, plus a small preference for earlier slots. */
+  const cost = (task: PlanTask, start: number, end: number) => {
+    let mismatch = 0;
+    for (let minute = start; minute < end; minute++) mismatch += ENERGY_COST[task.energy][energyAt(minute)];
+    return mismatch / (end - start) + start / (24 * 60 * 10);
+  };
+
+  const bestSlot = (task: PlanTask, duration: number, earliest: number, latest: number, intervals: Interval[]) => {
+    let best: (Interval & { cost: number }) | undefined;
+    for (const interval of intervals) {
+      const from = Math.max(interval.start, earliest);
+      const until = Math.min(interval.end, latest);
+      // Besides the slot edges, try energy boundaries and the first start after a break next to other work.
+      const starts = [from, until - duration, peak.start, peak.end, low.start, low.end]
+        .concat(placed.flatMap(block => [block.end + breakMinutes, block.start - breakMinutes - duration]))
+        .filter(start => start >= from && start + duration <= until);
+      for (const start of starts) {
+        const end = start + duration;
+        if (stretchWith(start, end) > Math.max(maxFocus, duration)) continue;
+        const slotCost = cost(task, start, end);
+        if (!best || slotCost < best.cost) best = { start, end, cost: slotCost };
+      }
+    }
+    return best;
+  };
+
+  const reserve = (task: PlanTask, start: number, end: number, title: string) => {
+    blocks.push({
+      start: formatTime(start),
+      end: formatTime(end),
+      title,
+      priority: task.priority,
+      quadrant: task.quadrant ?? deriveQuadrant(task),
+      category: task.category ?? 'deep-work',
+      notes: [task.notes, task.deadline ? `Due by ${task.deadline}` : undefined].filter(Boolean).join('\n') || undefined,
+    });
+    placed.push({ start, end, work: !REST_CATEGORIES.has(task.category ?? 'deep-work') });
+    free = subtract(free, start - buffer, end + buffer);
+  };
+
+  /**
+   * Fills the free time before the deadline in chronological order with
+   * chunks of at least MIN_CHUNK_MINUTES and at most the focus limit, or
+   * returns undefined when the task does not fit even split.
+   */
+  const splitIntoChunks = (task: PlanTask, earliest: number, latest: number): Interval[] | undefined => {
+    const chunks: Interval[] = [];
+    let remaining = task.durationMinutes;
+    for (const interval of free) {
+      const until = Math.min(interval.end, latest);
+      let from = Math.max(interval.start, earliest);
+      while (remaining) {
+        let size = Math.min(remaining, until - from, maxFocus);
+        // Leave enough for a last chunk of the minimum size.
+        if (remaining - size > 0 && remaining - size < MIN_CHUNK_MINUTES) size = remaining - MIN_CHUNK_MINUTES;
+        if (size < MIN_CHUNK_MINUTES) break;
+        if (stretchWith(from, from + size) > maxFocus) {
+          // Start after a proper break from the work just before, if that is what makes the stretch too long.
+          const previous = placed.find(block => block.work && block.end <= from && from - block.end < breakMinutes);
+          if (!previous) break;
+          from = previous.end + breakMinutes;
+          continue;
+        }
+        chunks.push({ start: from, end: from + size });
+        remaining -= size;
+        from += size + Math.max(buffer, breakMinutes);
+      }
+      if (!remaining) return chunks;
+    }
+    return undefined;
+  };
+
+  const explain = (task: PlanTask, earliest: number, latest: number): { reason: UnscheduledReason; message: string } => {
+    const duration = task.durationMinutes;
+    const window = dayFree.map(({ start, end }) => ({ start: Math.max(start, earliest), end: Math.min(end, latest) })).filter(({ start, end }) => end > start);
+    const available = window.reduce((sum, { start, end }) => sum + end - start, 0);
+    const longest = window.reduce((max, { start, end }) => Math.max(max, end - start), 0);
+    const due = task.deadline ? ` before its ${task.deadline} deadline` : '';
+
+    if (available < duration) {
+      return {
+        reason: task.deadline ? 'deadline' : 'capacity',
+        message: `"${task.title}" needs ${formatDuration(duration)} but only ${formatDuration(available)} is free${due || ' in the working hours'} once fixed events and breaks are taken out`,
+      };
+    }
+    // A task over the focus limit is split, with a break between its chunks.
+    const chunks = task.splittable ? Math.ceil(duration / maxFocus) : 1;
+    const withBreaks = duration + (chunks - 1) * Math.max(buffer, breakMinutes);
+    if (chunks > 1 && available < withBreaks) {
+      return {
+        reason: task.deadline ? 'deadline' : 'capacity',
+        message: `"${task.title}" needs ${formatDuration(withBreaks)} as ${chunks} focus blocks with breaks between them but only ${formatDuration(available)} is free${due || ' in the working hours'} once fixed events and breaks are taken out`,
+      };
+    }
+    if (longest < duration && !task.splittable) {
+      return {
+        reason: 'too-long',
+        message: `"${task.title}" needs ${formatDuration(duration)} in one piece but the longest free slot${due} is ${formatDuration(longest)}; allow splitting it or move a fixed event`,
+      };
+    }
+    return {
+      reason: 'no-room',
+      message: `"${task.title}" would fit an empty day, but the free time${due} is taken by higher-priority tasks; drop or shorten another task, or move it to another day`,
+    };
+  };
+
+  const order = request.tasks
+    .map((task, index) => ({ task, index, deadline: task.deadline === undefined ? Infinity : parseTime(task.deadline, `deadline of "${task.title}"`) }))
+    .sort(
+      (a, b) =>
+        PRIORITY_RANK[a.task.priority] - PRIORITY_RANK[b.task.priority] ||
+        a.deadline - b.deadline ||
+        ENERGY_RANK[a.task.energy] - ENERGY_RANK[b.task.energy] ||
+        b.task.durationMinutes - a.task.durationMinutes ||
+        a.index - b.index,
+    );
+
+  const unscheduled: UnscheduledTask[] = [];
+  for (const { task, deadline } of order) {
+    const duration = task.durationMinutes;
+    const earliest = task.earliestStart === undefined ? hours.start : parseTime(task.earliestStart, `earliestStart of "${task.title}"`);
+    const latest = Math.min(deadline, hours.end);
+
+    const canSplit = task.splittable && duration >= 2 * MIN_CHUNK_MINUTES;
+    // Only tasks that cannot be split may run past the focus limit in one block.
+    const slot = canSplit && duration > maxFocus ? undefined : bestSlot(task, duration, earliest, latest, free);
+    if (slot) {
+      reserve(task, slot.start, slot.end, task.title);
+      continue;
+    }
+
+    if (canSplit) {
+      const chunks = splitIntoChunks(task, earliest, latest);
+      if (chunks) {
+        chunks.forEach((chunk, chunkIndex) => reserve(task, chunk.start, chunk.end, `${task.title} (${chunkIndex + 1}/${chunks.length})`));
+        continue;
+      }
+    }
+
+    unscheduled.push({ title: task.title, durationMinutes: duration, priority: task.priority, ...explain(task, earliest, latest) });
+  }
+
+  const validation = validateSchedule(
+    { date: request.date ?? todayIn(request.timezone), timezone: request.timezone, workingHours: request.workingHours, blocks },
+    { maxStretchMinutes: maxFocus },
+  );
+
+  return {
+    ...validation,
+    feasible: !unscheduled.length && validation.valid,
+    unscheduled,
+    capacityMinutes,
+    requestedMinutes: request.tasks.reduce((sum, task) => sum + task.durationMinutes, 0),
+  };
+}
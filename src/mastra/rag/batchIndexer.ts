@@ -0,0 +1,115 @@
+import { randomUUID } from 'crypto';
+import type { BatchDocumentStatus, BatchIndexParams, BatchIndexResult, IndexingResult } from '../../types';
+import { indexDocument } from './indexer';
+
+export interface BatchJob {
+  id: string;
+  params: BatchIndexParams;
+  statuses: BatchDocumentStatus[];
+  results: Array<IndexingResult | undefined>;
+  startedAt: string;
+  completedAt?: string;
+}
+
+export interface BatchRunOptions {
+  concurrency?: number;
+  maxAttempts?: number;
+  onProgress?: (job: BatchJob) => void;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const MAX_TRACKED_JOBS = 50;
+
+const jobs = new Map<string, BatchJob>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function createBatchJob(params: BatchIndexParams, id: string = randomUUID()): BatchJob {
+  const job: BatchJob = {
+    id,
+    params,
+    statuses: params.documents.map((document, index) => ({
+      index,
+      title: document.title,
+      status: 'pending',
+      attempts: 0,
+    })),
+    results: params.documents.map(() => undefined),
+    startedAt: new Date().toISOString(),
+  };
+  jobs.set(id, job);
+  if (jobs.size > MAX_TRACKED_JOBS) {
+    jobs.delete(jobs.keys().next().value!);
+  }
+  return job;
+}
+
+export function getBatchJob(id: string): BatchJob | undefined {
+  return jobs.get(id);
+}
+
+export function summarizeBatchJob(job: BatchJob): BatchIndexResult {
+  const results = job.results.filter((result): result is IndexingResult => Boolean(result));
+  return {
+    total: job.statuses.length,
+    successful: job.statuses.filter(status => status.status === 'completed').length,
+    failed: job.statuses.filter(status => status.status === 'failed').length,
+    results,
+    errors: job.statuses
+      .filter(status => status.status === 'failed')
+      .map(status => `${status.title}: ${status.error ?? 'unknown error'}`),
+  };
+}
+
+async function indexWithRetry(job: BatchJob, index: number, maxAttempts: number, onProgress?: BatchRunOptions['onProgress']) {
+  const status = job.statuses[index];
+  const document = job.params.documents[index];
+
+  status.status = 'processing';
+  status.error = undefined;
+  onProgress?.(job);
+
+  let result: IndexingResult;
+  for (;;) {
+    status.attempts++;
+    result = await indexDocument({ ...document, options: job.params.options });
+
+    if (result.success || !result.metadata.retryable || status.attempts >= maxAttempts) break;
+    await sleep(RETRY_BASE_DELAY_MS * 2 ** (status.attempts - 1));
+  }
+
+  job.results[index] = result;
+  status.status = result.success ? 'completed' : 'failed';
+  status.error = result.success ? undefined : result.errors.join('; ');
+  onProgress?.(job);
+}
+
+/**
+ * Indexes every document of the job that has not completed yet, so running
+ * a job again retries only its failures.
+ */
+export async function runBatchJob(
+  job: BatchJob,
+  { concurrency = DEFAULT_CONCURRENCY, maxAttempts = DEFAULT_MAX_ATTEMPTS, onProgress }: BatchRunOptions = {},
+): Promise<BatchIndexResult> {
+  const queue = job.statuses.filter(status => status.status !== 'completed').map(status => status.index);
+  job.completedAt = undefined;
+
+  const worker = async () => {
+    for (let index = queue.shift(); index !== undefined; index = queue.shift()) {
+      await indexWithRetry(job, index, maxAttempts, onProgress);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, queue.length)) }, worker));
+
+  job.completedAt = new Date().toISOString();
+  return summarizeBatchJob(job);
+}
+
+export async function indexBatch(params: BatchIndexParams, options?: BatchRunOptions) {
+  const job = createBatchJob(params);
+  const result = await runBatchJob(job, options);
+  return { jobId: job.id, ...result, statuses: job.statuses };
+}
@@ -0,0 +1,158 @@
+import { createHash } from 'crypto';
+import type { TABLE_NAMES } from '@mastra/core/storage';
+import type { LibSQLStore } from '@mastra/libsql';
+import { storage } from '../storage';
+import { ragConfig } from './config';
+import { metrics } from './metrics';
+
+/**
+ * Key/value store with per-entry expiry.
+ */
+export interface CacheBackend {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const MAX_MEMORY_ENTRIES = 5000;
+
+export class MemoryCacheBackend implements CacheBackend {
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  async get<T>(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    if (this.entries.size > MAX_MEMORY_ENTRIES) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async clear() {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Cache table in the Mastra LibSQL storage. Values are stored wrapped in an
+ * object so LibSQLStore serializes them as JSON.
+ */
+export class StorageCacheBackend implements CacheBackend {
+  private ready: Promise<void> | undefined;
+  /** LibSQLStore's methods are typed for Mastra's own tables but accept any table name. */
+  private tableName: TABLE_NAMES;
+
+  constructor(
+    private store: LibSQLStore,
+    tableName: string,
+  ) {
+    this.tableName = tableName as TABLE_NAMES;
+  }
+
+  private ensureTable() {
+    if (!this.ready) {
+      this.ready = this.store.createTable({
+        tableName: this.tableName,
+        schema: {
+          key: { type: 'text', primaryKey: true },
+          value: { type: 'jsonb' },
+          expiresAt: { type: 'timestamp' },
+          createdAt: { type: 'timestamp' },
+        },
+      });
+    }
+    return this.ready;
+  }
+
+  async get<T>(key: string) {
+    await this.ensureTable();
+    const row = await this.store.load<{ value: { data: T }; expiresAt: string }>({
+      tableName: this.tableName,
+      keys: { key },
+    });
+    if (!row || Date.parse(row.expiresAt) <= Date.now()) return undefined;
+    return row.value.data;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number) {
+    await this.ensureTable();
+    const now = new Date();
+    await this.store.insert({
+      tableName: this.tableName,
+      record: {
+        key,
+        value: { data: value },
+        expiresAt: new Date(now.getTime() + ttlSeconds * 1000),
+        createdAt: now,
+      },
+    });
+  }
+
+  async clear() {
+    await this.ensureTable();
+    await this.store.clearTable({ tableName: this.tableName });
+  }
+}
+
+export function hashKey(...parts: unknown[]): string {
+  return createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
+
+/**
+ * Read-through cache that records hit rates in the knowledge base metrics.
+ * Cache failures are treated as misses so a broken backend never fails a
+ * search or indexing call.
+ */
+export class ResultCache {
+  constructor(
+    private backend: CacheBackend,
+    private ttlSeconds = ragConfig.cache.ttl,
+    private enabled = ragConfig.cache.enabled,
+  ) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    if (!this.enabled) return undefined;
+    const value = await this.backend.get<T>(key).catch(() => undefined);
+    metrics.recordCacheLookup(value !== undefined);
+    return value;
+  }
+
+  async set<T>(key: string, value: T) {
+    if (!this.enabled) return;
+    await this.backend.set(key, value, this.ttlSeconds).catch(() => undefined);
+  }
+
+  async getOrCompute<T>(key: string, compute: () => Promise<T>): Promise<T> {
+    const cached = await this.get<T>(key);
+    if (cached !== undefined) return cached;
+    const value = await compute();
+    await this.set(key, value);
+    return value;
+  }
+
+  async clear() {
+    await this.backend.clear().catch(() => undefined);
+  }
+}
+
+function createBackend(tableName: string): CacheBackend {
+  return storage ? new StorageCacheBackend(storage, tableName) : new MemoryCacheBackend();
+}
+
+/** Embeddings are deterministic for a given model, so they can live much longer than search results. */
+const EMBEDDING_TTL_SECONDS = 30 * 24 * 3600;
+
+export const embeddingCache = new ResultCache(
+  createBackend('rag_embedding_cache'),
+  Math.max(ragConfig.cache.ttl, EMBEDDING_TTL_SECONDS),
+);
+export const searchCache = new ResultCache(createBackend('rag_search_cache'));
@@ -0,0 +1,10 @@
+import { searchCache } from './cache';
+import { keywordIndex } from './keywordIndex';
+
+/**
+ * Drops state derived from the vector store. Call after every write.
+ */
+export async function knowledgeBaseChanged() {
+  keywordIndex.invalidate();
+  await searchCache.clear();
+}
@@ -0,0 +1,227 @@
+import type { DocumentFormat, DocumentProcessingResult, IndexingOptions } from '../../types';
+import { decodeEntities } from '../web/entities';
+import { ragConfig } from './config';
+
+export interface Chunk {
+  content: string;
+  section?: string;
+  wordCount: number;
+}
+
+interface Section {
+  heading?: string;
+  body: string;
+}
+
+const MIN_CHUNK_CHARS = 20;
+
+/**
+ * Counts words, treating each CJK character as a word since those scripts
+ * do not separate words with spaces.
+ */
+export function countWords(text: string): number {
+  const cjk = text.match(/[぀-ヿ㐀-鿿가-힯]/g)?.length ?? 0;
+  const latin = text
+    .replace(/[぀-ヿ㐀-鿿가-힯]/g, ' ')
+    .split(/\s+/)
+    .filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+  return cjk + latin;
+}
+
+export function detectFormat(content: string, filePath?: string | null): DocumentFormat {
+  const extension = filePath?.split('.').pop()?.toLowerCase();
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  if (extension === 'html' || extension === 'htm') return 'html';
+  if (extension === 'txt') return 'text';
+
+  if (/<(html|body|article|div|p|h[1-6])[\s>]/i.test(content)) return 'html';
+  if (/^#{1,6}\s/m.test(content) || /^```/m.test(content)) return 'markdown';
+  return 'text';
+}
+
+/**
+ * Reduces HTML to Markdown-like text so headings survive as section breaks.
+ */
+function htmlToText(html: string): { text: string; title?: string } {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const text = html
+    .replace(/<(script|style|noscript|head)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, inner) => `\n\n${'#'.repeat(Number(level))} ${inner.replace(/<[^>]+>/g, '').trim()}\n\n`)
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<(br|hr)\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|section|article|ul|ol|table|tr|blockquote|pre)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  return {
+    text: decodeEntities(text).replace(/\u00a0/g, ' '),
+    title: title ? decodeEntities(title).trim() : undefined,
+  };
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Splits Markdown-like text into sections at ATX headings. Plain text has
+ * no headings and comes back as a single section.
+ */
+function splitSections(text: string): Section[] {
+  const sections: Section[] = [];
+  let current: Section = { body: '' };
+
+  for (const line of text.split('\n')) {
+    const heading = line.match(/^#{1,6}\s+(.+?)\s*#*$/);
+    if (heading) {
+      if (current.body.trim() || current.heading) sections.push(current);
+      current = { heading: heading[1], body: '' };
+    } else {
+      current.body += `${line}\n`;
+    }
+  }
+  if (current.body.trim() || current.heading) sections.push(current);
+
+  return sections.map(section => ({ ...section, body: section.body.trim() }));
+}
+
+function splitSentences(paragraph: string): string[] {
+  return paragraph.match(/[^.!?。！？]+(?:[.!?]+(?=\s|$)|[。！？]+|$)\s*/g)?.map(s => s.trim()).filter(Boolean) ?? [paragraph];
+}
+
+function hardSplit(text: string, size: number): string[] {
+  const pieces: string[] = [];
+  for (let start = 0; start < text.length; start += size) {
+    pieces.push(text.slice(start, start + size));
+  }
+  return pieces;
+}
+
+/**
+ * Breaks a section body into units no longer than `size`: paragraphs first,
+ * then sentences, then fixed-width slices as a last resort. Units that
+ * continue the previous paragraph are flagged so they rejoin with a space.
+ */
+function splitUnits(body: string, size: number): Array<{ text: string; continues: boolean }> {
+  const units: Array<{ text: string; continues: boolean }> = [];
+  for (const paragraph of body.split(/\n{2,}/)) {
+    if (!paragraph.trim()) continue;
+    if (paragraph.length <= size) {
+      units.push({ text: paragraph, continues: false });
+      continue;
+    }
+    const pieces = splitSentences(paragraph).flatMap(sentence => (sentence.length <= size ? [sentence] : hardSplit(sentence, size)));
+    pieces.forEach((text, index) => units.push({ text, continues: index > 0 }));
+  }
+  return units;
+}
+
+function overlapTail(text: string, overlap: number): string {
+  if (overlap <= 0) return '';
+  if (text.length <= overlap) return text;
+  const tail = text.slice(-overlap);
+  const boundary = tail.search(/\s/);
+  return boundary >= 0 && boundary < tail.length / 2 ? tail.slice(boundary + 1) : tail;
+}
+
+/**
+ * Splits text into chunks of at most `chunkSize` characters. Chunks never
+ * span a heading; each chunk repeats its section heading and starts with
+ * the last `chunkOverlap` characters of the previous chunk in that section.
+ */
+export function chunkText(text: string, chunkSize: number, chunkOverlap: number): Chunk[] {
+  const chunks: Chunk[] = [];
+
+  for (const section of splitSections(text)) {
+    if (!section.body) continue;
+
+    const prefix = section.heading ? `${section.heading}\n\n` : '';
+    const budget = Math.max(MIN_CHUNK_CHARS, chunkSize - prefix.length);
+    const overlap = Math.min(chunkOverlap, Math.floor(budget / 2));
+    let current = '';
+    let hasNewContent = false;
+
+    const flush = () => {
+      const content = `${prefix}${current}`;
+      chunks.push({ content, section: section.heading, wordCount: countWords(content) });
+      current = overlapTail(current, overlap);
+      hasNewContent = false;
+    };
+
+    for (const unit of splitUnits(section.body, budget - overlap)) {
+      if (hasNewContent && current.length + unit.text.length + 2 > budget) {
+        flush();
+      }
+      const separator = unit.continues ? ' ' : '\n\n';
+      current = current ? `${current}${separator}${unit.text}` : unit.text;
+      hasNewContent = true;
+    }
+    if (hasNewContent) flush();
+  }
+
+  return chunks;
+}
+
+/**
+ * Normalizes raw document content and extracts document-level metadata.
+ */
+export function processDocument(raw: string, options: IndexingOptions = {}, filePath?: string | null): DocumentProcessingResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const format = options.format ?? detectFormat(raw, filePath);
+
+  let text = raw;
+  let extractedTitle: string | undefined;
+  if (format === 'html') {
+    ({ text, title: extractedTitle } = htmlToText(raw));
+  } else if (format === 'markdown') {
+    text = raw.replace(/^---\n[\s\S]*?\n---\n/, '');
+  }
+  text = normalizeWhitespace(text);
+
+  if (options.validateContent !== false) {
+    if (!text) {
+      errors.push('Document is empty after removing markup');
+    } else {
+      if (text.length < 50) {
+        warnings.push(`Document is very short (${text.length} characters)`);
+      }
+      const controlChars = text.match(/[\u0000-\u0008\u000e-\u001f�]/g)?.length ?? 0;
+      if (controlChars / text.length > 0.01) {
+        errors.push('Document appears to contain binary data');
+      }
+    }
+  }
+
+  const metadata: Record<string, any> = { format, characters: text.length, wordCount: countWords(text) };
+  if (options.extractMetadata !== false) {
+    const headings = text.match(/^#{1,6}\s+.+$/gm)?.map(h => h.replace(/^#+\s+/, '')) ?? [];
+    const firstParagraph = text.split(/\n{2,}/).find(p => !p.startsWith('#'));
+    metadata.extractedTitle = extractedTitle ?? headings[0];
+    metadata.headings = headings;
+    metadata.description = firstParagraph?.slice(0, 200);
+  }
+
+  return { success: errors.length === 0, content: text, metadata, errors, warnings };
+}
+
+export function resolveChunking(options: IndexingOptions = {}) {
+  const warnings: string[] = [];
+  const chunkSize = Math.max(MIN_CHUNK_CHARS * 5, options.chunkSize ?? ragConfig.chunking.defaultSize);
+  let chunkOverlap = Math.max(0, options.chunkOverlap ?? ragConfig.chunking.defaultOverlap);
+
+  if (options.chunkSize !== undefined && options.chunkSize !== chunkSize) {
+    warnings.push(`chunkSize raised to the minimum of ${chunkSize}`);
+  }
+  if (chunkOverlap >= chunkSize / 2) {
+    chunkOverlap = Math.floor(chunkSize / 4);
+    warnings.push(`chunkOverlap must be less than half of chunkSize; using ${chunkOverlap}`);
+  }
+
+  return { chunkSize, chunkOverlap, warnings };
+}
@@ -0,0 +1,30 @@
+import '../env';
+import type { RAGConfig } from '../../types';
+
+/**
+ * Knowledge base configuration, resolved from the environment once at startup.
+ */
+export const ragConfig: RAGConfig = {
+  apiKeys: {
+    openai: process.env.OPENAI_API_KEY || '',
+    pinecone: process.env.PINECONE_API_KEY || '',
+  },
+  indexName: process.env.KNOWLEDGE_BASE_INDEX || 'knowledge_base',
+  documentsDir: process.env.KNOWLEDGE_BASE_DOCUMENTS_DIR || '',
+  embedding: {
+    model: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+    dimension: Number(process.env.EMBEDDING_DIMENSION) || 1536,
+  },
+  chunking: {
+    defaultSize: 1000,
+    defaultOverlap: 200,
+  },
+  search: {
+    defaultTopK: 5,
+    defaultThreshold: 0.3,
+  },
+  cache: {
+    enabled: process.env.RAG_CACHE_ENABLED !== 'false',
+    ttl: Number(process.env.RAG_CACHE_TTL) || 3600,
+  },
+};
@@ -0,0 +1,54 @@
+import OpenAI from 'openai';
+import { toToolError } from '../errors';
+import { embeddingCache, hashKey } from './cache';
+import { ragConfig } from './config';
+
+let client: OpenAI | undefined;
+
+function getClient(): OpenAI {
+  if (!client) {
+    client = new OpenAI({ apiKey: ragConfig.apiKeys.openai });
+  }
+  return client;
+}
+
+function cacheKey(text: string): string {
+  return hashKey('embedding', ragConfig.embedding.model, ragConfig.embedding.dimension, text);
+}
+
+/**
+ * Embeds a batch of texts, preserving input order. Texts embedded before
+ * are served from the cache; only the rest are sent to the API.
+ */
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  if (texts.length === 0) return [];
+
+  const keys = texts.map(cacheKey);
+  const embeddings = await Promise.all(keys.map(key => embeddingCache.get<number[]>(key)));
+  const missing = embeddings.flatMap((embedding, index) => (embedding ? [] : [index]));
+
+  if (missing.length > 0) {
+    const response = await getClient()
+      .embeddings.create({
+        model: ragConfig.embedding.model,
+        input: missing.map(index => texts[index]),
+        dimensions: ragConfig.embedding.dimension,
+      })
+      .catch(error => {
+        throw toToolError(error, 'OpenAI embeddings request');
+      });
+
+    for (const item of response.data) {
+      const index = missing[item.index];
+      embeddings[index] = item.embedding;
+      await embeddingCache.set(keys[index], item.embedding);
+    }
+  }
+
+  return embeddings as number[][];
+}
+
+export async function embedText(text: string): Promise<number[]> {
+  const [embedding] = await embedTexts([text]);
+  return embedding;
+}
@@ -0,0 +1,187 @@
+import type {
+  AdvancedSearchParams,
+  AdvancedSearchResult,
+  QueryComplexity,
+  SearchResult,
+  VectorMatch,
+  VectorRecord,
+} from '../../types';
+import { hashKey, searchCache } from './cache';
+import { ragConfig } from './config';
+import { embedText } from './embeddings';
+import { keywordIndex, tokenize } from './keywordIndex';
+import { metrics } from './metrics';
+import { toSearchResult } from './search';
+import { vectorStore } from './vectorStore';
+
+export type SearchStrategy = 'semantic' | 'keyword';
+
+/** Rank offset from the original reciprocal rank fusion paper. */
+const RRF_K = 60;
+
+const STRATEGY_WEIGHTS: Record<QueryComplexity, Record<SearchStrategy, number>> = {
+  simple: { semantic: 0.7, keyword: 1.3 },
+  medium: { semantic: 1, keyword: 1 },
+  complex: { semantic: 1.3, keyword: 0.7 },
+};
+
+const CANDIDATE_MULTIPLIER: Record<QueryComplexity, number> = {
+  simple: 2,
+  medium: 3,
+  complex: 4,
+};
+
+/**
+ * Looks for tokens that embeddings handle poorly: error codes, constants,
+ * dotted or camelCase API names, paths and version numbers.
+ */
+function hasExactTerms(query: string): boolean {
+  return (
+    /\b[A-Z][A-Z0-9]*_[A-Z0-9_]+\b/.test(query) ||
+    /\b[A-Z]{1,5}-?\d{2,}\b/.test(query) ||
+    /\b[a-z]+[A-Z]\w*\b/.test(query) ||
+    /\w+\.\w+\(?/.test(query) ||
+    /\bv?\d+\.\d+(\.\d+)?\b/.test(query) ||
+    /`[^`]+`/.test(query)
+  );
+}
+
+export function classifyQuery(query: string): QueryComplexity {
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  const terms = tokenize(query).length;
+  const clauses = query.split(/[,;?]|\b(?:and|or|but|versus|vs\.?|compared?)\b|[，；？和或]/i).filter(part => part.trim()).length;
+
+  if (hasExactTerms(query) || terms <= 3) return 'simple';
+  if (words.length > 15 || terms > 20 || clauses > 2) return 'complex';
+  return 'medium';
+}
+
+function inDateRange(record: VectorRecord, dateRange: AdvancedSearchParams['dateRange']): boolean {
+  if (!dateRange) return true;
+  const timestamp = record.metadata?.timestamp;
+  if (!timestamp) return false;
+  const time = Date.parse(timestamp);
+  return time >= Date.parse(dateRange.start) && time <= Date.parse(dateRange.end);
+}
+
+/** BM25 score that maps to 0.5 once squashed into the 0..1 range. */
+const BM25_MIDPOINT = 5;
+
+function saturateScores(matches: VectorMatch[]): VectorMatch[] {
+  return matches.map(match => ({ ...match, score: match.score / (match.score + BM25_MIDPOINT) }));
+}
+
+/**
+ * Weighted reciprocal rank fusion. Scores are scaled so that a result ranked
+ * first by every strategy scores 1.
+ */
+export function fuseRankings(
+  rankings: Array<{ matches: VectorMatch[]; weight: number }>,
+  topK: number,
+): VectorMatch[] {
+  const fused = new Map<string, VectorMatch>();
+  const maxScore = rankings.reduce((sum, { weight }) => sum + weight / (RRF_K + 1), 0);
+
+  for (const { matches, weight } of rankings) {
+    matches.forEach((match, rank) => {
+      const contribution = weight / (RRF_K + rank + 1);
+      const existing = fused.get(match.id);
+      fused.set(match.id, {
+        ...(existing ?? match),
+        score: (existing?.score ?? 0) + contribution,
+      });
+    });
+  }
+
+  return [...fused.values()]
+    .map(match => ({ ...match, score: maxScore > 0 ? match.score / maxScore : 0 }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+/**
+ * Semantic candidates within the date range. The range is checked after the
+ * vector query, so the query is widened until enough matches fall inside it
+ * or the store has no more above the threshold.
+ */
+async function semanticCandidates(
+  query: string,
+  candidates: number,
+  category: AdvancedSearchParams['category'],
+  dateRange: AdvancedSearchParams['dateRange'],
+): Promise<VectorMatch[]> {
+  const vector = await embedText(query);
+  const filter = category ? { category } : undefined;
+  for (let topK = dateRange ? candidates * 2 : candidates; ; topK *= 2) {
+    const matches = await vectorStore.query({ vector, topK, filter, minScore: ragConfig.search.defaultThreshold });
+    const inRange = matches.filter(match => inDateRange(match, dateRange));
+    if (inRange.length >= candidates || matches.length < topK) return inRange.slice(0, candidates);
+  }
+}
+
+async function runAdvancedSearch({
+  query,
+  searchStrategies,
+  topK = ragConfig.search.defaultTopK,
+  category,
+  dateRange,
+}: AdvancedSearchParams): Promise<AdvancedSearchResult> {
+  const complexity = classifyQuery(query);
+  const requested = (searchStrategies ?? []).filter(
+    (strategy): strategy is SearchStrategy => strategy === 'semantic' || strategy === 'keyword',
+  );
+  const strategies: SearchStrategy[] = requested.length ? requested : ['semantic', 'keyword'];
+  const candidates = topK * CANDIDATE_MULTIPLIER[complexity];
+
+  const [semantic, keyword] = await Promise.all([
+    strategies.includes('semantic')
+      ? semanticCandidates(query, candidates, category, dateRange)
+      : Promise.resolve([] as VectorMatch[]),
+    strategies.includes('keyword')
+      ? keywordIndex
+          .search(query, candidates, record => (!category || record.metadata?.category === category) && inDateRange(record, dateRange))
+          .then(saturateScores)
+      : Promise.resolve([] as VectorMatch[]),
+  ]);
+
+  const weights = STRATEGY_WEIGHTS[complexity];
+  const rankings = [
+    { matches: semantic, weight: weights.semantic, strategy: 'semantic' },
+    { matches: keyword, weight: weights.keyword, strategy: 'keyword' },
+  ].filter(({ strategy }) => strategies.includes(strategy as SearchStrategy));
+
+  // Fused scores only say how highly the strategies ranked a chunk, so its
+  // relevance is judged by the best similarity any strategy gave it.
+  const similarity = new Map<string, number>();
+  for (const match of [...semantic, ...keyword]) {
+    similarity.set(match.id, Math.max(similarity.get(match.id) ?? 0, match.score));
+  }
+  const combined: SearchResult[] = fuseRankings(rankings, topK).map(match => toSearchResult(match, similarity.get(match.id)));
+  const totalUnique = new Set([...semantic, ...keyword].map(match => match.id)).size;
+  const strategiesUsed: string[] = [...strategies];
+  if (rankings.length > 1) strategiesUsed.push('rrf-fusion');
+
+  return {
+    semantic: semantic.slice(0, topK).map(match => toSearchResult(match)),
+    keyword: keyword.slice(0, topK).map(match => toSearchResult(match)),
+    combined,
+    metadata: {
+      strategiesUsed,
+      totalUnique,
+      finalCount: combined.length,
+      searchComplexity: complexity,
+    },
+  };
+}
+
+/**
+ * Runs semantic and BM25 keyword search side by side and fuses the
+ * rankings. The query's complexity decides how many candidates each
+ * strategy contributes and how heavily each ranking is weighted.
+ */
+export async function advancedSearch(params: AdvancedSearchParams): Promise<AdvancedSearchResult> {
+  const started = Date.now();
+  const result = await searchCache.getOrCompute(hashKey('advanced-search', params), () => runAdvancedSearch(params));
+  metrics.recordQuery(Date.now() - started, result.combined[0]?.score);
+  return result;
+}
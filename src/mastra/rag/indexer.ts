@@ -0,0 +1,164 @@
+import { createHash } from 'crypto';
+import { readFile, realpath } from 'fs/promises';
+import { isAbsolute, relative, resolve } from 'path';
+import { ErrorCode, ToolError, toToolError } from '../errors';
+import type { IndexingResult, IndexToolParams, VectorRecord } from '../../types';
+import { knowledgeBaseChanged } from './changes';
+import { chunkText, processDocument, resolveChunking, type Chunk } from './chunker';
+import { ragConfig } from './config';
+import { embedTexts } from './embeddings';
+import { metrics } from './metrics';
+import { vectorStore } from './vectorStore';
+
+/**
+ * Pipeline stage reported as `metadata.failedStage` when indexing fails.
+ */
+export type IndexingStage = 'read' | 'validate' | 'embed' | 'store';
+
+function chunkId(title: string, source: string, chunkIndex: number): string {
+  const hash = createHash('sha1').update(`${source}\u0000${title}`).digest('hex').slice(0, 16);
+  return `${hash}-${chunkIndex}`;
+}
+
+/**
+ * Resolves a document path against the configured documents directory.
+ * Paths come from the model, so anything outside that directory, including
+ * through symlinks, is rejected, and reading files is disabled when no
+ * directory is configured.
+ */
+async function resolveDocumentPath(filePath: string): Promise<string> {
+  if (!ragConfig.documentsDir) {
+    throw new ToolError(ErrorCode.INVALID_INPUT, 'Reading files is disabled: set KNOWLEDGE_BASE_DOCUMENTS_DIR or pass the content instead', { filePath });
+  }
+  const base = await realpath(ragConfig.documentsDir);
+  const outside = (path: string) => {
+    const inside = relative(base, path);
+    return !inside || inside.startsWith('..') || isAbsolute(inside);
+  };
+  const escaped = () => new ToolError(ErrorCode.INVALID_INPUT, `File '${filePath}' is outside the documents directory`, { filePath });
+
+  // Checked before and after following symlinks, so a missing file outside the directory is not reported as missing.
+  if (outside(resolve(base, filePath))) throw escaped();
+  let target: string;
+  try {
+    target = await realpath(resolve(base, filePath));
+  } catch {
+    throw new ToolError(ErrorCode.NOT_FOUND, `File '${filePath}' does not exist in the documents directory`, { filePath });
+  }
+  if (outside(target)) throw escaped();
+  return target;
+}
+
+/**
+ * Drops chunks with no letters or digits and flags unusually short ones,
+ * recording per-chunk problems on the indexing result.
+ */
+function validateChunks(chunks: Chunk[], result: IndexingResult, validate: boolean): Chunk[] {
+  if (!validate) return chunks;
+
+  return chunks.filter((chunk, index) => {
+    if (!/[\p{L}\p{N}]/u.test(chunk.content)) {
+      result.errors.push(`Chunk ${index} has no textual content and was skipped`);
+      return false;
+    }
+    if (chunk.wordCount < 5) {
+      result.warnings.push(`Chunk ${index} is very short (${chunk.wordCount} words)`);
+    }
+    return true;
+  });
+}
+
+/**
+ * Chunks, embeds and stores a single document. Chunks from a previous
+ * indexing run of the same title and source are replaced.
+ */
+export async function indexDocument({
+  content,
+  title,
+  category = 'general',
+  source = 'manual',
+  filePath,
+  options = {},
+}: IndexToolParams): Promise<IndexingResult> {
+  const result: IndexingResult = {
+    success: false,
+    chunksIndexed: 0,
+    title,
+    category,
+    source,
+    metadata: {},
+    errors: [],
+    warnings: [],
+  };
+
+  const started = Date.now();
+  let stage: IndexingStage = 'read';
+  try {
+    const raw = content ?? (filePath ? await readFile(await resolveDocumentPath(filePath), 'utf-8') : '');
+    stage = 'validate';
+    if (!raw.trim()) {
+      result.errors.push('No content provided: pass either content or filePath');
+      result.metadata.failedStage = stage;
+      return result;
+    }
+
+    const processed = processDocument(raw, options, filePath);
+    result.warnings.push(...(processed.warnings ?? []));
+    if (!processed.success || !processed.content) {
+      result.errors.push(...(processed.errors ?? []));
+      result.metadata.failedStage = stage;
+      return result;
+    }
+
+    const { chunkSize, chunkOverlap, warnings } = resolveChunking(options);
+    result.warnings.push(...warnings);
+
+    const chunks = validateChunks(chunkText(processed.content, chunkSize, chunkOverlap), result, options.validateContent !== false);
+    if (chunks.length === 0) {
+      result.errors.push('Document produced no indexable chunks');
+      result.metadata.failedStage = stage;
+      return result;
+    }
+
+    stage = 'embed';
+    const embeddings = await embedTexts(chunks.map(chunk => chunk.content));
+    const timestamp = new Date().toISOString();
+
+    const records: VectorRecord[] = chunks.map((chunk, chunkIndex) => ({
+      id: chunkId(title, source, chunkIndex),
+      values: embeddings[chunkIndex],
+      metadata: {
+        title,
+        content: chunk.content,
+        category,
+        source,
+        timestamp,
+        chunkIndex,
+        totalChunks: chunks.length,
+        wordCount: chunk.wordCount,
+        ...(options.extractMetadata !== false && chunk.section ? { section: chunk.section } : {}),
+      },
+    }));
+
+    stage = 'store';
+    const previous = await vectorStore.list({ title, source });
+    const stale = previous.map(record => record.id).filter(id => !records.some(record => record.id === id));
+    await vectorStore.upsert(records);
+    await vectorStore.delete(stale);
+    await knowledgeBaseChanged();
+
+    result.success = true;
+    result.chunksIndexed = records.length;
+    result.metadata = { ...processed.metadata, chunkSize, chunkOverlap, timestamp };
+    metrics.recordIndexing(Date.now() - started, records.length);
+  } catch (error) {
+    const toolError = toToolError(error, `Indexing '${title}'`);
+    result.errors.push(`Failed to index '${title}': ${error instanceof Error ? error.message : String(error)}`);
+    result.metadata.failedStage = stage;
+    result.metadata.errorCode = toolError.code;
+    result.metadata.retryable =
+      (stage === 'embed' || stage === 'store') && (toolError.retryable || toolError.code === ErrorCode.INTERNAL);
+  }
+
+  return result;
+}
@@ -0,0 +1,119 @@
+import type { VectorMatch, VectorRecord } from '../../types';
+import { vectorStore } from './vectorStore';
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why', 'with',
+]);
+
+const CJK_RUN = /[぀-ヿ㐀-鿿가-힯]+/gu;
+
+/**
+ * Tokenizes for keyword matching. Identifiers such as `ERR_TIMEOUT` or
+ * `Array.prototype.map` are kept whole and also split into their parts;
+ * CJK runs are indexed as character bigrams.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const run of text.match(CJK_RUN) ?? []) {
+    if (run.length === 1) tokens.push(run);
+    for (let i = 0; i < run.length - 1; i++) {
+      tokens.push(run.slice(i, i + 2));
+    }
+  }
+
+  const latin = text.replace(CJK_RUN, ' ');
+  for (const word of latin.match(/[\p{L}\p{N}_]+(?:[.\-:/][\p{L}\p{N}_]+)*/gu) ?? []) {
+    const lower = word.toLowerCase();
+    const parts = lower.split(/[.\-:/_]/).filter(Boolean);
+    if (parts.length > 1) tokens.push(lower);
+    for (const part of parts) {
+      if (!STOPWORDS.has(part)) tokens.push(part);
+    }
+  }
+
+  return tokens;
+}
+
+interface IndexedDocument {
+  record: VectorRecord;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+/**
+ * Okapi BM25 index over chunk content and titles.
+ */
+export class KeywordIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+  private stale = true;
+
+  constructor(private k1 = 1.2, private b = 0.75) {}
+
+  /**
+   * Marks the index for rebuilding after the vector store changed.
+   */
+  invalidate() {
+    this.stale = true;
+  }
+
+  private async ensureFresh() {
+    if (!this.stale && this.documents.size === (await vectorStore.count())) return;
+    this.rebuild(await vectorStore.list());
+  }
+
+  rebuild(records: VectorRecord[]) {
+    this.documents.clear();
+    this.documentFrequencies.clear();
+    this.totalLength = 0;
+
+    for (const record of records) {
+      const tokens = tokenize(`${record.metadata?.title ?? ''}\n${record.metadata?.content ?? ''}`);
+      const termFrequencies = new Map<string, number>();
+      for (const token of tokens) {
+        termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+      }
+      for (const term of termFrequencies.keys()) {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+      }
+      this.documents.set(record.id, { record, termFrequencies, length: tokens.length });
+      this.totalLength += tokens.length;
+    }
+
+    this.stale = false;
+  }
+
+  async search(query: string, topK: number, predicate?: (record: VectorRecord) => boolean): Promise<VectorMatch[]> {
+    await this.ensureFresh();
+
+    const terms = [...new Set(tokenize(query))];
+    const count = this.documents.size;
+    if (terms.length === 0 || count === 0) return [];
+
+    const averageLength = this.totalLength / count;
+    const matches: VectorMatch[] = [];
+
+    for (const { record, termFrequencies, length } of this.documents.values()) {
+      if (predicate && !predicate(record)) continue;
+
+      let score = 0;
+      for (const term of terms) {
+        const frequency = termFrequencies.get(term);
+        if (!frequency) continue;
+        const documentFrequency = this.documentFrequencies.get(term) ?? 0;
+        const idf = Math.log(1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        score += (idf * frequency * (this.k1 + 1)) / (frequency + this.k1 * (1 - this.b + (this.b * length) / averageLength));
+      }
+      if (score > 0) {
+        matches.push({ id: record.id, metadata: record.metadata, score });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+}
+
+export const keywordIndex = new KeywordIndex();
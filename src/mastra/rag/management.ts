@@ -0,0 +1,356 @@
+import type {
+  CategoryInfo,
+  CleanupResult,
+  DocumentInfo,
+  KnowledgeBaseStats,
+  ManagementOperation,
+  ManagementResult,
+  ManagementToolParams,
+  MetadataFilter,
+  VectorRecord,
+} from '../../types';
+import { knowledgeBaseChanged } from './changes';
+import { getPerformanceMetrics } from './metrics';
+import { vectorStore } from './vectorStore';
+
+/** Metadata fields that `update` may not overwrite. */
+const PROTECTED_FIELDS = new Set(['content', 'chunkIndex', 'totalChunks', 'wordCount']);
+/**
+ * Chunk IDs and re-indexing derive from a document's source and title, so
+ * changing them would leave chunks that a re-index no longer replaces.
+ */
+const IDENTITY_FIELDS = new Set(['title', 'source']);
+
+function increment(counts: Record<string, number>, key: string) {
+  counts[key] = (counts[key] || 0) + 1;
+}
+
+function success(operation: ManagementOperation, data: any, message: string, errors: string[] = []): ManagementResult {
+  return { operation, success: true, data, message, errors };
+}
+
+function failure(operation: ManagementOperation, message: string, errors: string[] = [message]): ManagementResult {
+  return { operation, success: false, data: null, message, errors };
+}
+
+function withoutValues(record: VectorRecord): VectorRecord {
+  return { id: record.id, metadata: record.metadata };
+}
+
+export function computeStats(records: VectorRecord[]): KnowledgeBaseStats {
+  const stats: KnowledgeBaseStats = {
+    totalVectors: records.length,
+    categories: {},
+    sources: {},
+    timeDistribution: {},
+    sizingInfo: { averageChunkSize: 0, totalContent: 0 },
+    qualityMetrics: { documentsWithMetadata: 0, averageWordsPerChunk: 0 },
+    lastUpdated: '',
+  };
+
+  let totalWords = 0;
+  for (const { metadata = {} } of records) {
+    increment(stats.categories, metadata.category ?? 'general');
+    increment(stats.sources, metadata.source ?? 'unknown');
+    if (metadata.timestamp) {
+      increment(stats.timeDistribution, metadata.timestamp.slice(0, 10));
+      if (metadata.timestamp > stats.lastUpdated) stats.lastUpdated = metadata.timestamp;
+    }
+    if (metadata.title && metadata.category && metadata.source) {
+      stats.qualityMetrics.documentsWithMetadata++;
+    }
+    stats.sizingInfo.totalContent += metadata.content?.length ?? 0;
+    totalWords += metadata.wordCount ?? 0;
+  }
+
+  if (records.length > 0) {
+    stats.sizingInfo.averageChunkSize = Math.round(stats.sizingInfo.totalContent / records.length);
+    stats.qualityMetrics.averageWordsPerChunk = Math.round(totalWords / records.length);
+  }
+
+  return stats;
+}
+
+/**
+ * Reassembles chunks into documents keyed by title and source.
+ */
+export function groupDocuments(records: VectorRecord[]): DocumentInfo[] {
+  const documents = new Map<string, DocumentInfo>();
+
+  for (const { id, metadata = {} } of records) {
+    const title = metadata.title ?? 'Untitled';
+    const source = metadata.source ?? 'unknown';
+    const key = `${source}\u0000${title}`;
+    const document = documents.get(key) ?? {
+      title,
+      category: metadata.category ?? 'general',
+      source,
+      timestamp: '',
+      totalChunks: 0,
+      wordCount: 0,
+      chunkIds: [],
+    };
+
+    document.totalChunks++;
+    document.wordCount += metadata.wordCount ?? 0;
+    document.chunkIds.push(id);
+    if (metadata.timestamp && metadata.timestamp > document.timestamp) {
+      document.timestamp = metadata.timestamp;
+    }
+    documents.set(key, document);
+  }
+
+  return [...documents.values()].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+export function summarizeCategories(records: VectorRecord[]): CategoryInfo[] {
+  const categories = new Map<string, CategoryInfo & { documents: Set<string> }>();
+
+  for (const { metadata = {} } of records) {
+    const name = metadata.category ?? 'general';
+    const category = categories.get(name) ?? {
+      name,
+      count: 0,
+      estimatedTotal: 0,
+      lastUpdated: null,
+      sources: [],
+      documents: new Set<string>(),
+    };
+
+    category.count++;
+    const documentKey = `${metadata.source}\u0000${metadata.title}`;
+    if (!category.documents.has(documentKey)) {
+      category.documents.add(documentKey);
+      category.estimatedTotal += metadata.totalChunks ?? 1;
+    }
+    if (metadata.source && !category.sources.includes(metadata.source)) {
+      category.sources.push(metadata.source);
+    }
+    if (metadata.timestamp && (!category.lastUpdated || metadata.timestamp > category.lastUpdated)) {
+      category.lastUpdated = metadata.timestamp;
+    }
+    categories.set(name, category);
+  }
+
+  return [...categories.values()]
+    .map(({ documents, ...info }) => info)
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Finds duplicate chunks (same normalized content within one document,
+ * newest copy kept), chunks without any text, and chunks whose timestamp is
+ * missing or unparseable. Text shared by different documents, such as a
+ * common footer, is not a duplicate: removing it would leave gaps in the
+ * other documents.
+ */
+export async function cleanupKnowledgeBase(dryRun = false): Promise<CleanupResult> {
+  const result: CleanupResult = {
+    duplicatesFound: 0,
+    duplicatesRemoved: 0,
+    emptyChunksFound: 0,
+    emptyChunksRemoved: 0,
+    timestampsUpdated: 0,
+    errors: [],
+  };
+
+  const records = await vectorStore.list();
+  const empty: string[] = [];
+  const duplicates: string[] = [];
+  const stale: string[] = [];
+  const newestCopy = new Map<string, VectorRecord>();
+
+  for (const record of records) {
+    const content = (record.metadata?.content ?? '').replace(/\s+/g, ' ').trim().toLowerCase();
+    if (!/[\p{L}\p{N}]/u.test(content)) {
+      empty.push(record.id);
+      continue;
+    }
+
+    const timestamp = record.metadata?.timestamp;
+    if (!timestamp || Number.isNaN(Date.parse(timestamp))) {
+      stale.push(record.id);
+    }
+
+    const key = `${record.metadata?.source}\u0000${record.metadata?.title}\u0000${content}`;
+    const existing = newestCopy.get(key);
+    if (!existing) {
+      newestCopy.set(key, record);
+    } else if ((record.metadata?.timestamp ?? '') > (existing.metadata?.timestamp ?? '')) {
+      duplicates.push(existing.id);
+      newestCopy.set(key, record);
+    } else {
+      duplicates.push(record.id);
+    }
+  }
+
+  result.emptyChunksFound = empty.length;
+  result.duplicatesFound = duplicates.length;
+  if (dryRun) return result;
+
+  try {
+    await vectorStore.delete(empty);
+    result.emptyChunksRemoved = empty.length;
+  } catch (error: any) {
+    result.errors.push(`Failed to remove empty chunks: ${error.message}`);
+  }
+
+  try {
+    await vectorStore.delete(duplicates);
+    result.duplicatesRemoved = duplicates.length;
+  } catch (error: any) {
+    result.errors.push(`Failed to remove duplicate chunks: ${error.message}`);
+  }
+
+  const now = new Date().toISOString();
+  for (const id of stale.filter(id => !duplicates.includes(id))) {
+    try {
+      await vectorStore.updateMetadata(id, { timestamp: now });
+      result.timestampsUpdated++;
+    } catch (error: any) {
+      result.errors.push(`Failed to refresh timestamp of '${id}': ${error.message}`);
+    }
+  }
+
+  await knowledgeBaseChanged();
+  return result;
+}
+
+async function resolveTargetIds(options: Record<string, any>): Promise<string[] | null> {
+  if (Array.isArray(options.ids) && options.ids.length > 0) {
+    return options.ids;
+  }
+
+  const filter: MetadataFilter = {};
+  if (options.title) filter.title = options.title;
+  if (options.source) filter.source = options.source;
+  if (options.category) filter.category = options.category;
+  if (Object.keys(filter).length === 0) return null;
+
+  const records = await vectorStore.list(filter);
+  return records.map(record => record.id);
+}
+
+async function updateDocuments(options: Record<string, any>): Promise<ManagementResult> {
+  const ids = await resolveTargetIds(options);
+  if (!ids) {
+    return failure('update', 'Specify ids, or a title, source or category to select chunks');
+  }
+
+  const changes: Record<string, any> = { ...(options.metadata ?? {}) };
+  const rejected = Object.keys(changes).filter(field => PROTECTED_FIELDS.has(field));
+  if (rejected.length > 0) {
+    return failure('update', `Fields cannot be updated: ${rejected.join(', ')}`);
+  }
+  const identity = Object.keys(changes).filter(field => IDENTITY_FIELDS.has(field));
+  if (identity.length > 0) {
+    return failure(
+      'update',
+      `Fields that identify the document cannot be updated: ${identity.join(', ')}; re-index the document under the new ${identity.join(' and ')} and delete the old one instead`,
+    );
+  }
+  if (Object.keys(changes).length === 0) {
+    return failure('update', 'options.metadata must contain at least one field to change');
+  }
+  changes.timestamp = new Date().toISOString();
+
+  const errors: string[] = [];
+  let updated = 0;
+  for (const id of ids) {
+    try {
+      await vectorStore.updateMetadata(id, changes);
+      updated++;
+    } catch (error: any) {
+      errors.push(`Failed to update '${id}': ${error.message}`);
+    }
+  }
+
+  await knowledgeBaseChanged();
+  return {
+    operation: 'update',
+    success: errors.length === 0,
+    data: { updated, ids },
+    message: `Updated ${updated} of ${ids.length} chunks`,
+    errors,
+  };
+}
+
+async function deleteDocuments(options: Record<string, any>): Promise<ManagementResult> {
+  const selectsCategory = options.category && !options.title && !options.source && !(Array.isArray(options.ids) && options.ids.length > 0);
+  if (selectsCategory && options.deleteCategory !== true) {
+    return failure('delete', `Deleting by category alone removes every document in '${options.category}'; set deleteCategory: true to confirm`);
+  }
+  const ids = await resolveTargetIds(options);
+  if (!ids) {
+    return failure('delete', 'Specify ids, or a title, source or category to select chunks');
+  }
+
+  await vectorStore.delete(ids);
+  await knowledgeBaseChanged();
+  return success('delete', { deleted: ids.length, ids }, `Deleted ${ids.length} chunks`);
+}
+
+async function searchByMetadata(options: Record<string, any>): Promise<ManagementResult> {
+  const filter: MetadataFilter = options.filter ?? {};
+  const limit: number = options.limit ?? 50;
+  const contains = typeof options.contains === 'string' ? options.contains.toLowerCase() : undefined;
+
+  if (Object.keys(filter).length === 0 && !contains) {
+    return failure('search-by-metadata', 'Provide options.filter and/or options.contains');
+  }
+
+  const matches = (await vectorStore.list(Object.keys(filter).length > 0 ? filter : undefined)).filter(
+    record => !contains || (record.metadata?.content ?? '').toLowerCase().includes(contains),
+  );
+
+  return success(
+    'search-by-metadata',
+    { total: matches.length, chunks: matches.slice(0, limit).map(withoutValues) },
+    `Found ${matches.length} matching chunks`,
+  );
+}
+
+/**
+ * Dispatches a knowledge base management operation.
+ */
+export async function runManagementOperation({ operation, options = {} }: ManagementToolParams): Promise<ManagementResult> {
+  try {
+    switch (operation) {
+      case 'stats': {
+        const stats = computeStats(await vectorStore.list());
+        return success(
+          operation,
+          { ...stats, performance: getPerformanceMetrics() },
+          `Knowledge base holds ${stats.totalVectors} chunks`,
+        );
+      }
+      case 'list': {
+        const filter: MetadataFilter | undefined = options.category ? { category: options.category } : undefined;
+        const documents = groupDocuments(await vectorStore.list(filter));
+        const limit: number = options.limit ?? documents.length;
+        return success(operation, documents.slice(0, limit), `Found ${documents.length} documents`);
+      }
+      case 'update':
+        return await updateDocuments(options);
+      case 'delete':
+        return await deleteDocuments(options);
+      case 'cleanup': {
+        const cleanup = await cleanupKnowledgeBase(Boolean(options.dryRun));
+        const message = options.dryRun
+          ? `Found ${cleanup.duplicatesFound} duplicate and ${cleanup.emptyChunksFound} empty chunks`
+          : `Removed ${cleanup.duplicatesRemoved} duplicate and ${cleanup.emptyChunksRemoved} empty chunks, refreshed ${cleanup.timestampsUpdated} timestamps`;
+        return { operation, success: cleanup.errors.length === 0, data: cleanup, message, errors: cleanup.errors };
+      }
+      case 'categories': {
+        const categories = summarizeCategories(await vectorStore.list());
+        return success(operation, categories, `Found ${categories.length} categories`);
+      }
+      case 'search-by-metadata':
+        return await searchByMetadata(options);
+      default:
+        return failure(operation, `Unsupported operation: ${operation}`);
+    }
+  } catch (error: any) {
+    return failure(operation, `Operation '${operation}' failed`, [error.message]);
+  }
+}
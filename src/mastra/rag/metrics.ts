@@ -0,0 +1,65 @@
+import type { PerformanceMetrics } from '../../types';
+
+/** Number of recent samples each average is computed over. */
+const WINDOW = 200;
+
+function pushSample(samples: number[], value: number) {
+  samples.push(value);
+  if (samples.length > WINDOW) samples.shift();
+}
+
+function average(samples: number[]): number {
+  return samples.length ? samples.reduce((sum, value) => sum + value, 0) / samples.length : 0;
+}
+
+/**
+ * Rolling performance counters for the knowledge base. Values are process
+ * local and reset on restart.
+ */
+class MetricsCollector {
+  private queryTimes: number[] = [];
+  private topScores: number[] = [];
+  private indexingTimes: number[] = [];
+  private indexedChunks: number[] = [];
+  private cacheHits = 0;
+  private cacheMisses = 0;
+
+  recordQuery(durationMs: number, topScore?: number) {
+    pushSample(this.queryTimes, durationMs);
+    if (topScore !== undefined) pushSample(this.topScores, topScore);
+  }
+
+  recordIndexing(durationMs: number, chunks: number) {
+    pushSample(this.indexingTimes, durationMs);
+    pushSample(this.indexedChunks, chunks);
+  }
+
+  recordCacheLookup(hit: boolean) {
+    if (hit) this.cacheHits++;
+    else this.cacheMisses++;
+  }
+
+  /**
+   * `searchAccuracy` has no ground truth to compare against, so it reports
+   * the mean score of the best result per query as a proxy.
+   */
+  snapshot(): PerformanceMetrics {
+    const lookups = this.cacheHits + this.cacheMisses;
+    const indexingSeconds = this.indexingTimes.reduce((sum, value) => sum + value, 0) / 1000;
+    const chunks = this.indexedChunks.reduce((sum, value) => sum + value, 0);
+
+    return {
+      queryTime: Math.round(average(this.queryTimes)),
+      indexingTime: Math.round(average(this.indexingTimes)),
+      searchAccuracy: Number(average(this.topScores).toFixed(3)),
+      throughput: indexingSeconds > 0 ? Number((chunks / indexingSeconds).toFixed(2)) : 0,
+      cacheHitRate: lookups ? Number((this.cacheHits / lookups).toFixed(3)) : 0,
+    };
+  }
+}
+
+export const metrics = new MetricsCollector();
+
+export function getPerformanceMetrics(): PerformanceMetrics {
+  return metrics.snapshot();
+}
@@ -0,0 +1,57 @@
+import type { RelevanceLevel, SearchResult, SearchToolParams, VectorMatch } from '../../types';
+import { hashKey, searchCache } from './cache';
+import { ragConfig } from './config';
+import { embedText } from './embeddings';
+import { metrics } from './metrics';
+import { vectorStore } from './vectorStore';
+
+export function getRelevanceLevel(score: number): RelevanceLevel {
+  if (score >= 0.8) return 'high';
+  if (score >= 0.6) return 'medium';
+  if (score >= 0.4) return 'low';
+  return 'minimal';
+}
+
+/**
+ * `relevanceScore` is the 0..1 similarity the relevance level is judged by;
+ * it differs from `match.score` for fused rankings, whose scores reflect
+ * rank rather than similarity.
+ */
+export function toSearchResult(match: VectorMatch, relevanceScore = match.score): SearchResult {
+  const metadata = match.metadata ?? {};
+  return {
+    id: match.id,
+    score: match.score,
+    content: metadata.content ?? '',
+    title: metadata.title ?? 'Untitled',
+    category: metadata.category ?? 'general',
+    source: metadata.source ?? 'unknown',
+    timestamp: metadata.timestamp ?? '',
+    chunkIndex: metadata.chunkIndex ?? 0,
+    relevanceLevel: getRelevanceLevel(relevanceScore),
+  };
+}
+
+/**
+ * Semantic search over the knowledge base.
+ */
+export async function searchKnowledgeBase({
+  query,
+  topK = ragConfig.search.defaultTopK,
+  category,
+  threshold = ragConfig.search.defaultThreshold,
+}: SearchToolParams): Promise<SearchResult[]> {
+  const started = Date.now();
+  const results = await searchCache.getOrCompute(hashKey('search', query, topK, category, threshold), async () => {
+    const vector = await embedText(query);
+    const matches = await vectorStore.query({
+      vector,
+      topK,
+      filter: category ? { category } : undefined,
+      minScore: threshold,
+    });
+    return matches.map(toSearchResult);
+  });
+  metrics.recordQuery(Date.now() - started, results[0]?.score);
+  return results;
+}
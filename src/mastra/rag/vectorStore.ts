@@ -0,0 +1,215 @@
+import { LibSQLVector } from '@mastra/libsql';
+import { ErrorCode, ToolError } from '../errors';
+import type { MetadataFilter, VectorMatch, VectorMetadata, VectorRecord } from '../../types';
+import { ragConfig } from './config';
+
+/**
+ * Storage backend for knowledge base vectors. Implementations must keep
+ * chunk text in `metadata.content` so results can be rendered without a
+ * second lookup.
+ */
+export interface VectorStore {
+  upsert(records: VectorRecord[]): Promise<void>;
+  query(params: {
+    vector: number[];
+    topK: number;
+    filter?: MetadataFilter;
+    minScore?: number;
+  }): Promise<VectorMatch[]>;
+  fetch(ids: string[]): Promise<VectorRecord[]>;
+  list(filter?: MetadataFilter): Promise<VectorRecord[]>;
+  updateMetadata(id: string, metadata: VectorMetadata): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+  count(): Promise<number>;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function matchesFilter(metadata: VectorMetadata | undefined, filter?: MetadataFilter): boolean {
+  if (!filter) return true;
+  return Object.entries(filter).every(([key, value]) => metadata?.[key] === value);
+}
+
+/**
+ * Process-local store. Contents are lost on restart, which is fine for
+ * development and for Workers without a database configured.
+ */
+export class InMemoryVectorStore implements VectorStore {
+  private records = new Map<string, VectorRecord>();
+
+  async upsert(records: VectorRecord[]) {
+    for (const record of records) {
+      this.records.set(record.id, { ...record, metadata: { ...record.metadata } });
+    }
+  }
+
+  async query({ vector, topK, filter, minScore = 0 }: Parameters<VectorStore['query']>[0]) {
+    const matches: VectorMatch[] = [];
+    for (const record of this.records.values()) {
+      if (!record.values || !matchesFilter(record.metadata, filter)) continue;
+      const score = cosineSimilarity(vector, record.values);
+      if (score >= minScore) {
+        matches.push({ ...record, score });
+      }
+    }
+    return matches.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  async fetch(ids: string[]) {
+    return ids
+      .map(id => this.records.get(id))
+      .filter((record): record is VectorRecord => Boolean(record));
+  }
+
+  async list(filter?: MetadataFilter) {
+    return [...this.records.values()].filter(record => matchesFilter(record.metadata, filter));
+  }
+
+  async updateMetadata(id: string, metadata: VectorMetadata) {
+    const record = this.records.get(id);
+    if (!record) {
+      throw new ToolError(ErrorCode.NOT_FOUND, `Vector '${id}' not found`, { id });
+    }
+    record.metadata = { ...record.metadata, ...metadata };
+  }
+
+  async delete(ids: string[]) {
+    for (const id of ids) {
+      this.records.delete(id);
+    }
+  }
+
+  async count() {
+    return this.records.size;
+  }
+}
+
+/**
+ * LibSQL/Turso-backed store built on Mastra's LibSQLVector.
+ */
+export class LibSQLVectorStore implements VectorStore {
+  private vector: LibSQLVector;
+  private ready: Promise<void> | undefined;
+
+  constructor(
+    connectionUrl: string,
+    authToken?: string,
+    private indexName = ragConfig.indexName,
+    private dimension = ragConfig.embedding.dimension,
+  ) {
+    this.vector = new LibSQLVector({ connectionUrl, authToken });
+  }
+
+  private ensureIndex() {
+    if (!this.ready) {
+      this.ready = this.vector
+        .listIndexes()
+        .then(indexes =>
+          indexes.includes(this.indexName)
+            ? undefined
+            : this.vector.createIndex({ indexName: this.indexName, dimension: this.dimension, metric: 'cosine' }),
+        );
+    }
+    return this.ready;
+  }
+
+  async upsert(records: VectorRecord[]) {
+    if (records.length === 0) return;
+    await this.ensureIndex();
+    await this.vector.upsert({
+      indexName: this.indexName,
+      vectors: records.map(record => record.values ?? []),
+      metadata: records.map(record => record.metadata ?? {}),
+      ids: records.map(record => record.id),
+    });
+  }
+
+  async query({ vector, topK, filter, minScore = 0 }: Parameters<VectorStore['query']>[0]) {
+    await this.ensureIndex();
+    const results = await this.vector.query({
+      indexName: this.indexName,
+      queryVector: vector,
+      topK,
+      filter,
+      minScore,
+    });
+    return results.map(result => ({
+      id: result.id,
+      score: result.score,
+      values: result.vector,
+      metadata: result.metadata,
+    }));
+  }
+
+  async fetch(ids: string[]) {
+    const wanted = new Set(ids);
+    const records = await this.list();
+    return records.filter(record => wanted.has(record.id));
+  }
+
+  async list(filter?: MetadataFilter) {
+    const total = await this.count();
+    if (total === 0) return [];
+
+    // LibSQLVector has no scan API, so rank everything against a fixed basis
+    // vector with a floor below the lowest possible cosine score.
+    const basis = new Array(this.dimension).fill(0);
+    basis[0] = 1;
+    const results = await this.vector.query({
+      indexName: this.indexName,
+      queryVector: basis,
+      topK: total,
+      filter,
+      includeVector: true,
+      minScore: -2,
+    });
+    return results.map(result => ({
+      id: result.id,
+      values: result.vector,
+      metadata: result.metadata,
+    }));
+  }
+
+  async updateMetadata(id: string, metadata: VectorMetadata) {
+    await this.ensureIndex();
+    const [existing] = await this.fetch([id]);
+    if (!existing) {
+      throw new ToolError(ErrorCode.NOT_FOUND, `Vector '${id}' not found`, { id });
+    }
+    await this.vector.updateVector(this.indexName, id, {
+      metadata: { ...existing.metadata, ...metadata },
+    });
+  }
+
+  async delete(ids: string[]) {
+    await this.ensureIndex();
+    for (const id of ids) {
+      await this.vector.deleteVector(this.indexName, id);
+    }
+  }
+
+  async count() {
+    await this.ensureIndex();
+    const stats = await this.vector.describeIndex(this.indexName);
+    return stats.count;
+  }
+}
+
+export function createVectorStore(): VectorStore {
+  return process.env.TURSO_DATABASE_URL
+    ? new LibSQLVectorStore(process.env.TURSO_DATABASE_URL, process.env.TURSO_AUTH_TOKEN)
+    : new InMemoryVectorStore();
+}
+
+export const vectorStore = createVectorStore();
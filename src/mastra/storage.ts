@@ -0,0 +1,9 @@
+import "./env";
+import { LibSQLStore } from "@mastra/libsql";
+
+export const storage = process.env.TURSO_DATABASE_URL
+  ? new LibSQLStore({
+      url: process.env.TURSO_DATABASE_URL,
+      authToken: process.env.TURSO_AUTH_TOKEN,
+    })
+  : undefined;
@@ -0,0 +1,82 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { ErrorCode, ToolError, toToolError } from '../errors';
+import { compareSources, fetchSources, summarizeSource, type SourceSummary } from '../web/compare';
+import { webFetchTool } from './webFetchTool';
+
+export const compareWebpagesTool = createTool({
+  id: 'compare-webpages',
+  description:
+    'Fetch several URLs concurrently (e.g. competing product pages or news coverage of one event), summarize each and build a comparison table citing each source as [n]. URLs that fail are reported per source without failing the rest',
+  inputSchema: z.object({
+    urls: z.array(z.string().url()).min(2).max(8).describe('The URLs to compare, in the order the user gave them'),
+    focus: z
+      .array(z.string())
+      .max(8)
+      .optional()
+      .describe('Aspects to compare, e.g. ["price", "battery life"]; chosen from the sources when omitted'),
+    language: z.string().optional().describe("Language to write in, e.g. the user's language"),
+  }),
+  outputSchema: z.object({
+    sources: z.array(
+      z.object({
+        ref: z.number().describe('Citation number used in the comparison'),
+        url: z.string(),
+        status: z.enum(['ok', 'failed']),
+        title: z.string().optional(),
+        siteName: z.string().optional(),
+        publishedAt: z.string().optional(),
+        summary: z.string().optional(),
+        truncated: z.boolean().optional().describe('Only the start of the page was summarized'),
+        error: z.object({ code: z.string(), message: z.string() }).optional(),
+      }),
+    ),
+    comparison: z
+      .string()
+      .optional()
+      .describe('Markdown comparison table citing sources as [n], followed by a short synthesis; omitted when fewer than two sources succeeded'),
+    succeeded: z.number(),
+    failed: z.number(),
+  }),
+  execute: async ({ context, runtimeContext }) => {
+    const urls = context.urls.filter((url, index) => context.urls.indexOf(url) === index);
+    const fetched = await fetchSources(urls, url => webFetchTool.execute!({ context: { url }, runtimeContext }));
+
+    const sources = await Promise.all(
+      fetched.map(async ({ ref, url, page, error }): Promise<SourceSummary> => {
+        if (!page) return { ref, url, status: 'failed', error };
+        const source: SourceSummary = {
+          ref,
+          url: page.url,
+          status: 'ok',
+          title: page.title,
+          siteName: page.siteName,
+          publishedAt: page.publishedAt,
+          truncated: page.truncated || undefined,
+        };
+        try {
+          source.summary = await summarizeSource(page, context);
+        } catch (error) {
+          const toolError = toToolError(error, `Summarizing ${url}`);
+          return { ...source, status: 'failed', error: { code: toolError.code, message: toolError.message } };
+        }
+        return source;
+      }),
+    );
+
+    const succeeded = sources.filter(source => source.status === 'ok');
+    if (!succeeded.length) {
+      const code = sources.find(source => source.error)?.error?.code ?? ErrorCode.INTERNAL;
+      throw new ToolError(code, `None of the ${urls.length} URLs could be summarized`, {
+        failures: sources.map(({ url, error }) => ({ url, ...error })),
+      });
+    }
+
+    return {
+      sources,
+      comparison: succeeded.length >= 2 ? await compareSources(succeeded, context) : undefined,
+      succeeded: succeeded.length,
+      failed: sources.length - succeeded.length,
+    };
+  },
+});
@@ -0,0 +1,150 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { roundAmount } from '../currency/money';
+import type { RateProvider, RateSnapshot } from '../currency/providers';
+import { getFreshness, latestRates } from '../currency/rateSources';
+import { resolveCurrency } from '../currency/resolve';
+import { ErrorCode, ToolError } from '../errors';
+
+/** Upper bound on conversions per call, to keep one call to a handful of requests. */
+const MAX_CONVERSIONS = 100;
+
+const lineSchema = z.object({
+  amount: z.number().describe('Amount in the source currency'),
+  from: z.string().describe('Source currency code, name or country'),
+  to: z.string().optional().describe('Target currency code, name or country; defaults to the top-level `to` when it names one currency'),
+  description: z.string().optional().describe('Free-text label, e.g. an expense item'),
+});
+
+const conversionSchema = z.object({
+  description: z.string().optional(),
+  amount: z.number(),
+  from: z.string(),
+  to: z.string(),
+  rate: z.number(),
+  converted: z.number().describe('Converted amount rounded to the minor units of the target currency'),
+});
+
+interface ConversionRequest {
+  amount: number;
+  from: string;
+  to: string;
+  description?: string;
+}
+
+/**
+ * Expands the two input modes into individual conversions with
+ * normalized codes.
+ */
+function toRequests(input: {
+  amount?: number;
+  from?: string;
+  to?: string | string[];
+  lines?: z.infer<typeof lineSchema>[];
+}): ConversionRequest[] {
+  const targets = input.to === undefined ? [] : Array.isArray(input.to) ? input.to : [input.to];
+
+  if (input.lines?.length) {
+    if (targets.length > 1) {
+      throw new ToolError(ErrorCode.INVALID_INPUT, 'With lines, `to` must name a single default target currency', { to: input.to });
+    }
+    return input.lines.map((line, index) => {
+      const to = line.to ?? targets[0];
+      if (!to) {
+        throw new ToolError(ErrorCode.INVALID_INPUT, `Line ${index + 1} has no target currency`, { line: index + 1 });
+      }
+      return {
+        amount: line.amount,
+        from: resolveCurrency(line.from, `lines[${index}].from`),
+        to: resolveCurrency(to, `lines[${index}].to`),
+        description: line.description,
+      };
+    });
+  }
+
+  if (input.amount === undefined || !input.from || targets.length === 0) {
+    throw new ToolError(ErrorCode.INVALID_INPUT, 'Provide either amount, from and to, or a list of lines');
+  }
+  const from = resolveCurrency(input.from, 'from');
+  return targets.map(to => ({ amount: input.amount!, from, to: resolveCurrency(to, 'to') }));
+}
+
+export function createCurrencyConvertTool({ latest = latestRates }: { latest?: RateProvider } = {}) {
+  return createTool({
+    id: 'convert-currency',
+    description:
+      'Convert amounts between currencies with correct rounding: one amount into many target currencies, or a list of (amount, from, to) lines such as an expense report, with totals per target currency',
+    inputSchema: z.object({
+      amount: z.number().optional().describe('Amount to convert into every currency in `to`'),
+      from: z.string().optional().describe('Source currency (code, name or country) for `amount`'),
+      to: z
+        .union([z.string(), z.array(z.string())])
+        .optional()
+        .describe('Target currency code(s), names or countries; with lines, the default target for lines without one'),
+      lines: z.array(lineSchema).optional().describe('Individual conversions, e.g. expense items in mixed currencies'),
+    }),
+    outputSchema: z.object({
+      conversions: z.array(conversionSchema),
+      totals: z.array(z.object({ currency: z.string(), total: z.number(), count: z.number() })),
+      updatedAt: z.string().describe('Publication time of the oldest rate used'),
+      source: z.string().describe('Provider(s) that served the rates'),
+      stale: z.boolean().describe('True when any rate used is past its expected update'),
+      ageHours: z.number().describe('Age of the oldest rate used, in hours'),
+    }),
+    execute: async ({ context }) => {
+      const requests = toRequests(context);
+      if (requests.length > MAX_CONVERSIONS) {
+        throw new ToolError(ErrorCode.INVALID_INPUT, `At most ${MAX_CONVERSIONS} conversions per call`, {
+          count: requests.length,
+        });
+      }
+
+      // One rate lookup per distinct source currency.
+      const bases = [...new Set(requests.map(request => request.from))];
+      const snapshots = new Map<string, RateSnapshot>(
+        await Promise.all(bases.map(async base => [base, await latest.getLatest(base)] as const)),
+      );
+
+      const totals = new Map<string, { total: number; count: number }>();
+      const conversions = requests.map(request => {
+        const rate = request.from === request.to ? 1 : snapshots.get(request.from)!.rates[request.to];
+        if (!rate) {
+          throw new ToolError(ErrorCode.NOT_FOUND, `Currency '${request.to}' not found`, { currency: request.to });
+        }
+        const converted = request.amount * rate;
+        const entry = totals.get(request.to) ?? { total: 0, count: 0 };
+        entry.total += converted;
+        entry.count += 1;
+        totals.set(request.to, entry);
+
+        return {
+          ...(request.description ? { description: request.description } : {}),
+          amount: request.amount,
+          from: request.from,
+          to: request.to,
+          rate,
+          converted: roundAmount(converted, request.to),
+        };
+      });
+
+      // Report the oldest rate used.
+      const used = [...snapshots.values()].sort((a, b) => Date.parse(a.updatedAt) - Date.parse(b.updatedAt));
+      const freshness = used.map(snapshot => getFreshness(snapshot));
+      return {
+        conversions,
+        // Totals sum unrounded amounts so rounding errors do not accumulate.
+        totals: [...totals].map(([currency, { total, count }]) => ({
+          currency,
+          total: roundAmount(total, currency),
+          count,
+        })),
+        updatedAt: used[0].updatedAt,
+        source: [...new Set(used.map(snapshot => snapshot.source))].join(', '),
+        stale: freshness.some(entry => entry.stale),
+        ageHours: Math.max(...freshness.map(entry => entry.ageHours)),
+      };
+    },
+  });
+}
+
+export const currencyConvertTool = createCurrencyConvertTool();
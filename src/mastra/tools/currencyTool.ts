@@ -1,47 +1,164 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
+import { FrankfurterProvider, type HistoricalRateProvider, type RatePoint, type RateProvider } from '../currency/providers';
+import { getFreshness, latestRates } from '../currency/rateSources';
+import { resolveCurrency } from '../currency/resolve';
+import { ErrorCode, ToolError } from '../errors';
 
-interface ExchangeRateResponse {
-  result: string;
-  base_code: string;
-  target_code: string;
-  conversion_rate: number;
-  time_last_update_utc: string;
+/** Longest date range accepted in series mode. */
+const MAX_SERIES_DAYS = 366;
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+interface CurrencyToolProviders {
+  /** Source of current rates. */
+  latest?: RateProvider;
+  /** Source of historical rates and daily series. */
+  history?: HistoricalRateProvider;
 }
 
-export const currencyTool = createTool({
-  id: 'get-exchange-rate',
-  description: 'Get real-time exchange rate between two currencies',
-  inputSchema: z.object({
-    from: z.string().describe('Source currency code, e.g. USD, CNY, EUR'),
-    to: z.string().describe('Target currency code, e.g. USD, CNY, EUR'),
-  }),
-  outputSchema: z.object({
-    from: z.string(),
-    to: z.string(),
-    rate: z.number(),
-    updatedAt: z.string(),
-  }),
-  execute: async ({ context }) => {
-    const { from, to } = context;
-    const url = `https://open.er-api.com/v6/latest/${from.toUpperCase()}`;
-    const response = await fetch(url);
-    const data = (await response.json()) as any;
-
-    if (data.result !== 'success') {
-      throw new Error(`Failed to fetch exchange rate for ${from}`);
-    }
-
-    const rate = data.rates[to.toUpperCase()];
-    if (!rate) {
-      throw new Error(`Currency '${to}' not found`);
-    }
-
-    return {
-      from: from.toUpperCase(),
-      to: to.toUpperCase(),
-      rate,
-      updatedAt: data.time_last_update_utc,
-    };
-  },
+function validateDate(value: string, field: string) {
+  if (!DATE.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new ToolError(ErrorCode.INVALID_INPUT, `${field} must be a date in YYYY-MM-DD format`, { [field]: value });
+  }
+  if (value > new Date().toISOString().slice(0, 10)) {
+    throw new ToolError(ErrorCode.INVALID_INPUT, `${field} cannot be in the future`, { [field]: value });
+  }
+}
+
+function pickRate(rates: Record<string, number>, to: string): number {
+  const rate = rates[to];
+  if (!rate) {
+    throw new ToolError(ErrorCode.NOT_FOUND, `Currency '${to}' not found`, { currency: to });
+  }
+  return rate;
+}
+
+/**
+ * Summarizes a daily series for one currency pair.
+ */
+export function summarizeSeries(points: RatePoint[], to: string) {
+  const series = points
+    .filter(point => typeof point.rates[to] === 'number')
+    .map(point => ({ date: point.date, rate: point.rates[to] }));
+  if (series.length === 0) {
+    throw new ToolError(ErrorCode.NOT_FOUND, `No rates for '${to}' in the requested range`, { currency: to });
+  }
+
+  const rates = series.map(point => point.rate);
+  const first = series[0];
+  const last = series[series.length - 1];
+  const change = last.rate - first.rate;
+
+  return {
+    startDate: first.date,
+    endDate: last.date,
+    startRate: first.rate,
+    endRate: last.rate,
+    min: Math.min(...rates),
+    max: Math.max(...rates),
+    average: Number((rates.reduce((sum, rate) => sum + rate, 0) / rates.length).toFixed(6)),
+    change: Number(change.toFixed(6)),
+    percentChange: Number(((change / first.rate) * 100).toFixed(4)),
+    points: series,
+  };
+}
+
+const seriesSchema = z.object({
+  startDate: z.string(),
+  endDate: z.string(),
+  startRate: z.number(),
+  endRate: z.number(),
+  min: z.number(),
+  max: z.number(),
+  average: z.number(),
+  change: z.number(),
+  percentChange: z.number(),
+  points: z.array(z.object({ date: z.string(), rate: z.number() })),
 });
+
+export function createCurrencyTool({
+  latest = latestRates,
+  history = new FrankfurterProvider(),
+}: CurrencyToolProviders = {}) {
+  return createTool({
+    id: 'get-exchange-rate',
+    description:
+      'Get the exchange rate between two currencies: the latest rate, the rate on a past date, or a daily series with min/max/average and percent change over a date range',
+    inputSchema: z.object({
+      from: z.string().describe('Source currency: ISO code, name or country in English or Chinese, e.g. USD, yuan, 日元, Switzerland'),
+      to: z.string().describe('Target currency: ISO code, name or country in English or Chinese, e.g. USD, yuan, 日元, Switzerland'),
+      date: z.string().optional().describe('Past date (YYYY-MM-DD) to get the rate for'),
+      startDate: z.string().optional().describe('Start of a date range (YYYY-MM-DD); returns a daily series'),
+      endDate: z.string().optional().describe('End of the date range (YYYY-MM-DD); defaults to today'),
+    }),
+    outputSchema: z.object({
+      from: z.string(),
+      to: z.string(),
+      rate: z.number().describe('Latest rate, the rate on `date`, or the last rate of the series'),
+      date: z.string().describe('Date the rate applies to'),
+      updatedAt: z.string(),
+      source: z.string().describe('Provider that served the rate'),
+      stale: z.boolean().describe('True when the latest rate is past its expected update, e.g. served from a fallback snapshot'),
+      ageHours: z.number().optional().describe('Hours since the latest rate was published'),
+      series: seriesSchema.optional(),
+    }),
+    execute: async ({ context }) => {
+      const { date, startDate } = context;
+      const from = resolveCurrency(context.from, 'from');
+      const to = resolveCurrency(context.to, 'to');
+
+      if (startDate) {
+        const endDate = context.endDate ?? new Date().toISOString().slice(0, 10);
+        validateDate(startDate, 'startDate');
+        validateDate(endDate, 'endDate');
+        const days = (Date.parse(endDate) - Date.parse(startDate)) / 86_400_000;
+        if (days < 0) {
+          throw new ToolError(ErrorCode.INVALID_INPUT, 'startDate must not be after endDate', { startDate, endDate });
+        }
+        if (days > MAX_SERIES_DAYS) {
+          throw new ToolError(ErrorCode.INVALID_INPUT, `Date range cannot exceed ${MAX_SERIES_DAYS} days`, { startDate, endDate });
+        }
+
+        const series = summarizeSeries(await history.getSeries(from, [to], startDate, endDate), to);
+        return {
+          from,
+          to,
+          rate: series.endRate,
+          date: series.endDate,
+          updatedAt: series.endDate,
+          source: history.name,
+          stale: false,
+          series,
+        };
+      }
+
+      if (date) {
+        validateDate(date, 'date');
+        const snapshot = await history.getHistorical(from, date);
+        return {
+          from,
+          to,
+          rate: pickRate(snapshot.rates, to),
+          date: snapshot.date,
+          updatedAt: snapshot.updatedAt,
+          source: snapshot.source,
+          stale: false,
+        };
+      }
+
+      const snapshot = await latest.getLatest(from);
+      return {
+        from,
+        to,
+        rate: pickRate(snapshot.rates, to),
+        date: snapshot.date,
+        updatedAt: snapshot.updatedAt,
+        source: snapshot.source,
+        ...getFreshness(snapshot),
+      };
+    },
+  });
+}
+
+export const currencyTool = createCurrencyTool();
@@ -0,0 +1,99 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { ErrorCode, ToolError } from '../errors';
+import { glossary } from '../translation/glossary';
+
+export const glossaryEntrySchema = z.object({
+  term: z.string().min(1).describe('Source-language term, e.g. "dashboard"'),
+  translation: z.string().optional().describe('Required target-language rendering'),
+  doNotTranslate: z.boolean().optional().describe('Keep the term as written, e.g. product and brand names'),
+  caseSensitive: z.boolean().optional().describe('Match the term only with this exact case'),
+  note: z.string().optional(),
+});
+
+const languageSchema = z.string().min(1);
+
+export const glossaryTool = createTool({
+  id: 'translation-glossary',
+  description:
+    'Look up the glossary terms that occur in a text before translating it, with the rendering each must use (or that it must stay untranslated); also lists, adds and removes terms for a language pair. Use "*" as a language to match any language',
+  inputSchema: z.object({
+    action: z.enum(['lookup', 'list', 'add', 'remove']),
+    sourceLanguage: languageSchema.describe('Source language tag, e.g. en, zh-CN, or *'),
+    targetLanguage: languageSchema.describe('Target language tag, e.g. ja, de-DE, or *'),
+    text: z.string().optional().describe('lookup: the text about to be translated'),
+    entries: z.array(glossaryEntrySchema).max(500).optional().describe('add: terms to add or replace'),
+    terms: z.array(z.string()).max(500).optional().describe('remove: terms to remove'),
+  }),
+  outputSchema: z.object({
+    action: z.string(),
+    terms: z
+      .array(
+        glossaryEntrySchema.extend({
+          expected: z.string().optional().describe('What the translation must contain for this term'),
+          occurrences: z.number().optional(),
+          pair: z.string().optional().describe('Language pair the entry came from'),
+        }),
+      )
+      .describe('lookup: terms found in the text; list and add: the entries of the pair'),
+    removed: z.number().optional(),
+  }),
+  execute: async ({ context }) => {
+    const { action, sourceLanguage, targetLanguage } = context;
+
+    switch (action) {
+      case 'lookup':
+        if (context.text === undefined) throw new ToolError(ErrorCode.INVALID_INPUT, 'lookup requires text', { field: 'text' });
+        return { action, terms: await glossary.lookup(context.text, sourceLanguage, targetLanguage) };
+
+      case 'list':
+        return { action, terms: await glossary.list(sourceLanguage, targetLanguage) };
+
+      case 'add':
+        if (!context.entries?.length) throw new ToolError(ErrorCode.INVALID_INPUT, 'add requires entries', { field: 'entries' });
+        return { action, terms: await glossary.upsert(sourceLanguage, targetLanguage, context.entries) };
+
+      case 'remove': {
+        if (!context.terms?.length) throw new ToolError(ErrorCode.INVALID_INPUT, 'remove requires terms', { field: 'terms' });
+        const removed = await glossary.remove(sourceLanguage, targetLanguage, context.terms);
+        return { action, terms: await glossary.list(sourceLanguage, targetLanguage), removed };
+      }
+
+      default:
+        throw new ToolError(ErrorCode.INVALID_INPUT, `Unknown action '${action}'`, { field: 'action' });
+    }
+  },
+});
+
+export const glossaryCheckTool = createTool({
+  id: 'check-glossary',
+  description:
+    'Check a finished translation against the glossary: reports each term whose required rendering is missing, or that should have stayed untranslated but was translated',
+  inputSchema: z.object({
+    sourceLanguage: languageSchema,
+    targetLanguage: languageSchema,
+    sourceText: z.string(),
+    translation: z.string(),
+  }),
+  outputSchema: z.object({
+    passed: z.boolean(),
+    termsChecked: z.number(),
+    violations: z.array(
+      z.object({
+        term: z.string(),
+        expected: z.string(),
+        kind: z.enum(['missing', 'translated']),
+        sourceOccurrences: z.number(),
+        message: z.string(),
+      }),
+    ),
+  }),
+  execute: async ({ context }) => {
+    const { sourceText, translation, sourceLanguage, targetLanguage } = context;
+    const [matches, violations] = await Promise.all([
+      glossary.lookup(sourceText, sourceLanguage, targetLanguage),
+      glossary.check(sourceText, translation, sourceLanguage, targetLanguage),
+    ]);
+    return { passed: violations.length === 0, termsChecked: matches.length, violations };
+  },
+});
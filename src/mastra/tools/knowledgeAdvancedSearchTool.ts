@@ -0,0 +1,41 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { advancedSearch } from '../rag/hybridSearch';
+import { searchResultSchema } from './knowledgeSearchTool';
+
+export const knowledgeAdvancedSearchTool = createTool({
+  id: 'advanced-search-knowledge-base',
+  description:
+    'Hybrid semantic + keyword search over the knowledge base. Best for exact identifiers such as error codes, API names and config keys, and for date-bounded questions',
+  inputSchema: z.object({
+    query: z.string().describe('Search phrase; exact identifiers are matched literally'),
+    searchStrategies: z
+      .array(z.enum(['semantic', 'keyword']))
+      .optional()
+      .describe('Strategies to run; both are used and fused when omitted'),
+    topK: z.number().int().min(1).max(50).optional().describe('Maximum number of combined results'),
+    category: z.string().nullable().optional().describe('Only search documents in this category'),
+    dateRange: z
+      .object({
+        start: z.string().describe('ISO date, inclusive'),
+        end: z.string().describe('ISO date, inclusive'),
+      })
+      .nullable()
+      .optional()
+      .describe('Only include chunks indexed within this range'),
+  }),
+  outputSchema: z.object({
+    semantic: z.array(searchResultSchema),
+    keyword: z.array(searchResultSchema),
+    combined: z.array(searchResultSchema),
+    metadata: z.object({
+      strategiesUsed: z.array(z.string()),
+      totalUnique: z.number(),
+      finalCount: z.number(),
+      searchComplexity: z.enum(['simple', 'medium', 'complex']),
+    }),
+  }),
+  execute: async ({ context }) => {
+    return await advancedSearch(context);
+  },
+});
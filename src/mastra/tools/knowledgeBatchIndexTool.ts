@@ -0,0 +1,46 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { indexBatch } from '../rag/batchIndexer';
+import { indexingOptionsSchema, indexingResultSchema } from './knowledgeIndexTool';
+
+export const batchDocumentSchema = z.object({
+  content: z.string().optional().describe('Document text; omit when filePath is given'),
+  title: z.string().describe('Document title'),
+  category: z.string().optional(),
+  source: z.string().optional(),
+  filePath: z.string().optional().describe('File to read the content from, relative to the configured documents directory'),
+});
+
+export const batchDocumentStatusSchema = z.object({
+  index: z.number(),
+  title: z.string(),
+  status: z.enum(['pending', 'processing', 'completed', 'failed']),
+  attempts: z.number(),
+  error: z.string().optional(),
+});
+
+export const batchIndexResultSchema = z.object({
+  total: z.number(),
+  successful: z.number(),
+  failed: z.number(),
+  results: z.array(indexingResultSchema),
+  errors: z.array(z.string()),
+});
+
+export const knowledgeBatchIndexTool = createTool({
+  id: 'batch-index-documents',
+  description: 'Index many documents into the knowledge base at once; failures are reported per document',
+  inputSchema: z.object({
+    documents: z.array(batchDocumentSchema).min(1),
+    options: indexingOptionsSchema.optional(),
+    concurrency: z.number().int().min(1).max(16).optional().describe('Documents processed in parallel (default 4)'),
+  }),
+  outputSchema: batchIndexResultSchema.extend({
+    jobId: z.string(),
+    statuses: z.array(batchDocumentStatusSchema),
+  }),
+  execute: async ({ context }) => {
+    const { concurrency, ...params } = context;
+    return await indexBatch(params, { concurrency });
+  },
+});
@@ -0,0 +1,39 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { indexDocument } from '../rag/indexer';
+
+export const indexingOptionsSchema = z.object({
+  chunkSize: z.number().int().positive().optional().describe('Target chunk size in characters'),
+  chunkOverlap: z.number().int().min(0).optional().describe('Characters shared between consecutive chunks'),
+  extractMetadata: z.boolean().optional().describe('Record section headings and document metadata (default true)'),
+  validateContent: z.boolean().optional().describe('Reject empty or binary content and skip empty chunks (default true)'),
+  format: z.enum(['text', 'markdown', 'html']).optional().describe('Input format; detected automatically when omitted'),
+});
+
+export const indexingResultSchema = z.object({
+  success: z.boolean(),
+  chunksIndexed: z.number(),
+  title: z.string(),
+  category: z.string(),
+  source: z.string(),
+  metadata: z.record(z.any()),
+  errors: z.array(z.string()),
+  warnings: z.array(z.string()),
+});
+
+export const knowledgeIndexTool = createTool({
+  id: 'index-document',
+  description: 'Add a document to the knowledge base so it can be searched later',
+  inputSchema: z.object({
+    content: z.string().optional().describe('Document text; omit when filePath is given'),
+    title: z.string().describe('Document title'),
+    category: z.string().optional().describe('Category used for filtering, e.g. engineering, hr'),
+    source: z.string().optional().describe('Where the document came from, e.g. a URL or wiki path'),
+    filePath: z.string().nullable().optional().describe('File to read the content from, relative to the configured documents directory'),
+    options: indexingOptionsSchema.optional(),
+  }),
+  outputSchema: indexingResultSchema,
+  execute: async ({ context }) => {
+    return await indexDocument(context);
+  },
+});
@@ -0,0 +1,37 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { runManagementOperation } from '../rag/management';
+
+export const knowledgeManagementTool = createTool({
+  id: 'manage-knowledge-base',
+  description:
+    'Inspect and maintain the knowledge base: statistics, listing documents and categories, updating or deleting documents, metadata search and cleanup of duplicate or empty chunks',
+  inputSchema: z.object({
+    operation: z
+      .enum(['stats', 'list', 'update', 'delete', 'cleanup', 'categories', 'search-by-metadata'])
+      .describe('Management operation to run'),
+    options: z
+      .record(z.any())
+      .optional()
+      .describe(
+        [
+          'Operation-specific options:',
+          'list: { category?, limit? };',
+          'update: { ids? | title?, source?, category?, metadata: {...} } (title and source cannot be changed);',
+          'delete: { ids? | title?, source?, category?, deleteCategory? } (deleteCategory: true is required to delete a whole category);',
+          'cleanup: { dryRun? };',
+          'search-by-metadata: { filter?: {...}, contains?, limit? }',
+        ].join(' '),
+      ),
+  }),
+  outputSchema: z.object({
+    operation: z.string(),
+    success: z.boolean(),
+    data: z.any(),
+    message: z.string(),
+    errors: z.array(z.string()),
+  }),
+  execute: async ({ context }) => {
+    return await runManagementOperation(context);
+  },
+});
@@ -0,0 +1,34 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { searchKnowledgeBase } from '../rag/search';
+
+export const searchResultSchema = z.object({
+  id: z.string(),
+  score: z.number(),
+  content: z.string(),
+  title: z.string(),
+  category: z.string(),
+  source: z.string(),
+  timestamp: z.string(),
+  chunkIndex: z.number(),
+  relevanceLevel: z.enum(['high', 'medium', 'low', 'minimal']),
+});
+
+export const knowledgeSearchTool = createTool({
+  id: 'search-knowledge-base',
+  description: 'Search the internal knowledge base for passages relevant to a question',
+  inputSchema: z.object({
+    query: z.string().describe('Natural language question or search phrase'),
+    topK: z.number().int().min(1).max(50).optional().describe('Maximum number of results'),
+    category: z.string().nullable().optional().describe('Only search documents in this category'),
+    threshold: z.number().min(0).max(1).optional().describe('Minimum similarity score'),
+  }),
+  outputSchema: z.object({
+    query: z.string(),
+    results: z.array(searchResultSchema),
+  }),
+  execute: async ({ context }) => {
+    const results = await searchKnowledgeBase(context);
+    return { query: context.query, results };
+  },
+});
@@ -0,0 +1,139 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { scheduleToIcs } from '../planner/ics';
+import { CATEGORIES, PRIORITIES, QUADRANTS, todayIn, validateSchedule } from '../planner/schedule';
+import { planSchedule } from '../planner/scheduler';
+
+const time = z.string().describe('HH:MM, 24-hour clock');
+
+export const scheduleBlockSchema = z.object({
+  start: time,
+  end: time.describe('HH:MM, 24-hour clock; 24:00 for midnight'),
+  title: z.string().min(1),
+  priority: z.enum(PRIORITIES),
+  quadrant: z.enum(QUADRANTS).describe('Eisenhower quadrant: do (urgent, important), schedule (important, not urgent), delegate (urgent, not important), eliminate (neither)'),
+  category: z.enum(CATEGORIES),
+  notes: z.string().optional(),
+  location: z.string().optional(),
+});
+
+export const scheduleSchema = z.object({
+  date: z.string().describe('YYYY-MM-DD'),
+  timezone: z.string().optional().describe('IANA time zone of the times, e.g. Asia/Shanghai'),
+  workingHours: z.object({ start: time, end: time }).optional(),
+  blocks: z.array(scheduleBlockSchema),
+});
+
+const minutesByKey = (keys: readonly string[]) => z.object(Object.fromEntries(keys.map(key => [key, z.number()])));
+
+const validationOutputSchema = z.object({
+  valid: z.boolean().describe('False when there are errors; warnings do not make a schedule invalid'),
+  schedule: scheduleSchema.describe('The schedule with blocks sorted by start time'),
+  issues: z.array(
+    z.object({
+      kind: z.enum(['invalid-time', 'overlap', 'outside-hours', 'over-allocation', 'no-break']),
+      severity: z.enum(['error', 'warning']),
+      message: z.string(),
+      blocks: z.array(z.number()).describe('Indexes into schedule.blocks'),
+    }),
+  ),
+  summary: z.object({
+    scheduledMinutes: z.number(),
+    workMinutes: z.number(),
+    restMinutes: z.number(),
+    freeMinutes: z.number(),
+    byPriority: minutesByKey(PRIORITIES),
+    byQuadrant: minutesByKey(QUADRANTS),
+    byCategory: z.record(z.number()),
+  }),
+  ics: z.string().optional().describe('iCalendar file content; save it as a .ics file'),
+});
+
+export const validateScheduleTool = createTool({
+  id: 'validate-schedule',
+  description:
+    'Validate a time-blocked daily schedule: reports overlapping blocks, invalid times, blocks outside working hours, over-allocation and long stretches without a break, totals time by priority, quadrant and category, and optionally exports the schedule as an iCalendar (.ics) file',
+  inputSchema: scheduleSchema.extend({
+    date: z.string().optional().describe('YYYY-MM-DD; defaults to today in the time zone'),
+    maxWorkMinutes: z.number().int().positive().optional().describe('Daily work limit in minutes (default 480)'),
+    maxStretchMinutes: z.number().int().positive().optional().describe('Longest run of work without a break in minutes (default 150)'),
+    ics: z.boolean().default(false).describe('Also return the schedule as iCalendar text for calendar import; blocks with invalid times are left out'),
+  }),
+  outputSchema: validationOutputSchema,
+  execute: async ({ context }) => {
+    const { maxWorkMinutes, maxStretchMinutes, ics, ...schedule } = context;
+    const result = validateSchedule({ ...schedule, date: schedule.date ?? todayIn(schedule.timezone) }, { maxWorkMinutes, maxStretchMinutes });
+    return { ...result, ics: ics ? scheduleToIcs(result.schedule) : undefined };
+  },
+});
+
+const range = z.object({ start: time, end: time });
+
+export const planScheduleTool = createTool({
+  id: 'plan-schedule',
+  description:
+    'Build a feasible time-blocked plan for a day from tasks (duration, priority, energy, optional deadline), fixed events, working hours, breaks and buffer minutes. Placement is deterministic: fixed events are never moved or double-booked, high-energy tasks go to peak hours, and tasks that cannot fit are returned with the reason instead of being squeezed in',
+  inputSchema: z.object({
+    date: z.string().optional().describe('YYYY-MM-DD; defaults to today in the time zone'),
+    timezone: z.string().optional().describe('IANA time zone of the times, e.g. Asia/Shanghai'),
+    workingHours: range.describe('The hours available for tasks'),
+    tasks: z
+      .array(
+        z.object({
+          title: z.string().min(1),
+          durationMinutes: z.number().int().positive().max(24 * 60),
+          priority: z.enum(PRIORITIES),
+          energy: z.enum(['high', 'medium', 'low']).describe('Energy the task needs; high-energy tasks go to peak hours'),
+          deadline: time.optional().describe('HH:MM by which the task must be finished'),
+          earliestStart: time.optional().describe('HH:MM before which the task cannot start'),
+          quadrant: z.enum(QUADRANTS).optional().describe('Derived from priority and deadline when omitted'),
+          category: z.enum(CATEGORIES).optional().describe('Defaults to deep-work'),
+          splittable: z.boolean().optional().describe('Whether the task may be split into chunks of at least 30 minutes'),
+          notes: z.string().optional(),
+        }),
+      )
+      .max(100),
+    fixedEvents: z
+      .array(
+        range.extend({
+          title: z.string().min(1),
+          category: z.enum(CATEGORIES).optional().describe('Defaults to meeting'),
+          priority: z.enum(PRIORITIES).optional(),
+          quadrant: z.enum(QUADRANTS).optional(),
+          location: z.string().optional(),
+          notes: z.string().optional(),
+        }),
+      )
+      .optional()
+      .describe('Meetings and appointments at fixed times; they are kept exactly as given'),
+    breaks: z
+      .array(range.extend({ title: z.string().optional(), category: z.enum(CATEGORIES).optional().describe('Defaults to break; use meal for lunch') }))
+      .optional()
+      .describe('Breaks at fixed times, e.g. lunch'),
+    bufferMinutes: z.number().int().min(0).max(120).optional().describe('Minutes kept free around every task and fixed event (default 10)'),
+    maxFocusMinutes: z.number().int().positive().optional().describe('Longest run of back-to-back work before a break (default 120)'),
+    breakMinutes: z.number().int().positive().optional().describe('Shortest gap that counts as a break (default 15)'),
+    peakHours: range.optional().describe('Peak-energy hours; defaults to the first three working hours'),
+    lowEnergyHours: range.optional().describe('Low-energy hours; defaults to 13:00-15:00'),
+    ics: z.boolean().default(false).describe('Also return the plan as iCalendar text for calendar import'),
+  }),
+  outputSchema: validationOutputSchema.extend({
+    feasible: z.boolean().describe('True when every task was placed and the plan has no validation errors'),
+    unscheduled: z.array(
+      z.object({
+        title: z.string(),
+        durationMinutes: z.number(),
+        priority: z.enum(PRIORITIES),
+        reason: z.enum(['deadline', 'capacity', 'too-long', 'no-room']).describe('deadline: not enough free time before the deadline; capacity: not enough free time in the day'),
+        message: z.string(),
+      }),
+    ),
+    capacityMinutes: z.number().describe('Free working minutes once fixed events and breaks are taken out'),
+    requestedMinutes: z.number().describe('Total duration of the tasks'),
+  }),
+  execute: async ({ context }) => {
+    const { ics, ...request } = context;
+    const result = planSchedule(request);
+    return { ...result, ics: ics ? scheduleToIcs(result.schedule) : undefined };
+  },
+});
@@ -0,0 +1,45 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { ErrorCode, fromStepError, ToolError } from '../errors';
+import { DETAIL_LEVELS } from '../web/summarize';
+import { summarizePageWorkflow } from '../workflows/summarize-page';
+
+export const summarizePageTool = createTool({
+  id: 'summarize-page',
+  description:
+    'Summarize a whole webpage of any length: splits it into sections, summarizes each and combines them. Use for long pages or when the user wants more detail',
+  inputSchema: z.object({
+    url: z.string().url().describe('The URL of the webpage to summarize'),
+    detail: z
+      .enum(DETAIL_LEVELS)
+      .default('standard')
+      .describe('brief: about 100 words; standard: 150-300 words; detailed: 400-800 words by topic'),
+    language: z.string().optional().describe("Language to write the summary in, e.g. the user's language"),
+  }),
+  outputSchema: z.object({
+    url: z.string(),
+    title: z.string().optional(),
+    byline: z.string().optional(),
+    publishedAt: z.string().optional(),
+    detail: z.enum(DETAIL_LEVELS),
+    summary: z.string(),
+    sectionsTotal: z.number(),
+    sectionsCovered: z.number().describe('Sections that were summarized; less than sectionsTotal when some were skipped or failed'),
+  }),
+  execute: async ({ context }) => {
+    const run = summarizePageWorkflow.createRun();
+    const { results } = await run.start({ triggerData: context });
+
+    for (const stepId of ['fetch-page', 'summarize-sections', 'combine-summaries'] as const) {
+      const result = results[stepId];
+      if (result?.status === 'failed') throw fromStepError(result.error);
+    }
+
+    const final = results['combine-summaries'];
+    if (final?.status !== 'success') {
+      throw new ToolError(ErrorCode.INTERNAL, 'Page summary workflow did not complete', { runId: run.runId });
+    }
+    const { sections, ...summary } = final.output;
+    return summary;
+  },
+});
@@ -0,0 +1,37 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { DOCUMENT_FORMATS, translateDocument } from '../translation/documents';
+
+export const translateDocumentTool = createTool({
+  id: 'translate-document',
+  description:
+    'Translate a whole document or localization file while keeping its structure: Markdown, HTML, JSON locale files, gettext PO and XLIFF. Only translatable text is sent to the model; placeholders such as {count}, {{name}}, %s, ICU plural syntax, tags and code spans are protected and verified afterwards',
+  inputSchema: z.object({
+    content: z.string().min(1).max(500_000).describe('The full file content'),
+    targetLanguage: z.string().min(1).describe('Target language tag, e.g. zh-CN, ja, de'),
+    sourceLanguage: z.string().optional().describe('Source language tag; needed for translation memory and improves glossary matches'),
+    format: z.enum(DOCUMENT_FORMATS).optional().describe('Detected from the filename or content when omitted'),
+    filename: z.string().optional().describe('Original filename, used to detect the format, e.g. messages.po'),
+    overwrite: z.boolean().optional().describe('PO and XLIFF: also retranslate entries that already have a translation'),
+    useMemory: z.boolean().optional().describe('Reuse exact translation memory matches and pass fuzzy ones to the model (default true)'),
+  }),
+  outputSchema: z.object({
+    content: z.string().describe('The translated file, in the same structure as the input'),
+    format: z.enum(DOCUMENT_FORMATS),
+    segments: z.number().describe('Text segments found in the document'),
+    translated: z.number().describe('Segments sent for translation'),
+    reused: z.number().describe('Segments taken from exact translation memory matches'),
+    issues: z
+      .array(
+        z.object({
+          location: z.string().describe('Line, JSON path or unit id of the segment'),
+          kind: z.enum(['placeholder', 'failed']),
+          message: z.string(),
+        }),
+      )
+      .describe('Segments kept in the source language because the translation lost placeholders or failed'),
+  }),
+  execute: async ({ context }) => {
+    return await translateDocument(context);
+  },
+});
@@ -0,0 +1,91 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { ErrorCode, ToolError } from '../errors';
+import { DEFAULT_MIN_SCORE, translationMemory } from '../translation/memory';
+
+const matchSchema = z.object({
+  source: z.string(),
+  target: z.string(),
+  score: z.number().describe('1 for an exact match, lower for fuzzy matches'),
+  exact: z.boolean(),
+  updatedAt: z.string(),
+});
+
+export const translationMemoryTool = createTool({
+  id: 'translation-memory',
+  description:
+    'Translation memory of approved translations. lookup: exact and fuzzy (edit-distance) matches for segments before translating them; record: save translations the user approved; remove; import-tmx and export-tmx: exchange the memory as TMX 1.4',
+  inputSchema: z.object({
+    action: z.enum(['lookup', 'record', 'remove', 'import-tmx', 'export-tmx']),
+    sourceLanguage: z.string().optional().describe('Source language tag, e.g. en; required except for import-tmx'),
+    targetLanguage: z.string().optional().describe('Target language tag, e.g. zh-CN; required for lookup, record and remove'),
+    segments: z.array(z.string()).max(200).optional().describe('lookup: source segments; remove: source segments to forget'),
+    minScore: z.number().min(0.5).max(1).optional().describe(`lookup: lowest fuzzy score to return (default ${DEFAULT_MIN_SCORE})`),
+    units: z
+      .array(z.object({ source: z.string(), target: z.string(), note: z.string().optional() }))
+      .max(500)
+      .optional()
+      .describe('record: approved source/translation pairs'),
+    tmx: z.string().max(5_000_000).optional().describe('import-tmx: the TMX document'),
+  }),
+  outputSchema: z.object({
+    action: z.string(),
+    matches: z.array(z.object({ segment: z.string(), matches: z.array(matchSchema) })).optional(),
+    recorded: z.number().optional(),
+    removed: z.number().optional(),
+    imported: z.number().optional(),
+    skipped: z.number().optional(),
+    pairs: z.array(z.string()).optional(),
+    tmx: z.string().optional(),
+    units: z.number().optional(),
+  }),
+  execute: async ({ context }) => {
+    const { action, sourceLanguage, targetLanguage } = context;
+    const requirePair = () => {
+      if (!sourceLanguage || !targetLanguage) {
+        throw new ToolError(ErrorCode.INVALID_INPUT, `${action} requires sourceLanguage and targetLanguage`, { field: sourceLanguage ? 'targetLanguage' : 'sourceLanguage' });
+      }
+      return [sourceLanguage, targetLanguage] as const;
+    };
+
+    switch (action) {
+      case 'lookup': {
+        const [source, target] = requirePair();
+        if (!context.segments?.length) throw new ToolError(ErrorCode.INVALID_INPUT, 'lookup requires segments', { field: 'segments' });
+        const matches = await Promise.all(
+          context.segments.map(async segment => ({
+            segment,
+            matches: await translationMemory.lookup(segment, source, target, { minScore: context.minScore }),
+          })),
+        );
+        return { action, matches };
+      }
+
+      case 'record': {
+        const [source, target] = requirePair();
+        if (!context.units?.length) throw new ToolError(ErrorCode.INVALID_INPUT, 'record requires units', { field: 'units' });
+        const recorded = await translationMemory.record(
+          context.units.map(unit => ({ ...unit, sourceLanguage: source, targetLanguage: target })),
+        );
+        return { action, recorded };
+      }
+
+      case 'remove': {
+        const [source, target] = requirePair();
+        if (!context.segments?.length) throw new ToolError(ErrorCode.INVALID_INPUT, 'remove requires segments', { field: 'segments' });
+        return { action, removed: await translationMemory.remove(source, target, context.segments) };
+      }
+
+      case 'import-tmx': {
+        if (!context.tmx) throw new ToolError(ErrorCode.INVALID_INPUT, 'import-tmx requires tmx', { field: 'tmx' });
+        return { action, ...(await translationMemory.importTmx(context.tmx, { sourceLanguage })) };
+      }
+
+      case 'export-tmx':
+        return { action, ...(await translationMemory.exportTmx({ sourceLanguage, targetLanguage })) };
+
+      default:
+        throw new ToolError(ErrorCode.INVALID_INPUT, `Unknown action '${action}'`, { field: 'action' });
+    }
+  },
+});
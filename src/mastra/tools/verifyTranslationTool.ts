@@ -0,0 +1,34 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { assessTranslation } from '../translation/quality';
+
+export const verifyTranslationTool = createTool({
+  id: 'verify-translation',
+  description:
+    'Check the quality of a translation before it is shipped: back-translates it into the source language and compares meaning, then checks length ratio, numbers, URLs, names, placeholders and glossary terms. Returns a confidence score, a verdict and the suspected problems',
+  inputSchema: z.object({
+    sourceText: z.string().min(1).max(20_000),
+    translation: z.string().min(1).max(40_000),
+    sourceLanguage: z.string().optional().describe('Source language tag, e.g. en; detected from the source text when omitted'),
+    targetLanguage: z.string().min(1).describe('Language of the translation, e.g. zh-CN'),
+  }),
+  outputSchema: z.object({
+    confidence: z.number().describe('0-1; semantic similarity of the back-translation minus a penalty per problem'),
+    verdict: z.enum(['pass', 'review', 'fail']),
+    backTranslation: z.string(),
+    similarity: z.number().describe('0-1 similarity of the source and the back-translation'),
+    similarityMethod: z.enum(['embedding', 'lexical']),
+    lengthRatio: z.number().describe('Translation length over source length, with CJK characters weighted'),
+    problems: z.array(
+      z.object({
+        kind: z.enum(['meaning', 'length', 'number', 'url', 'entity', 'placeholder', 'glossary']),
+        severity: z.enum(['high', 'medium', 'low']),
+        message: z.string(),
+        expected: z.string().optional(),
+      }),
+    ),
+  }),
+  execute: async ({ context }) => {
+    return await assessTranslation(context);
+  },
+});
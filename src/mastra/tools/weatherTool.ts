@@ -1,72 +1,312 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
+import { fetchJson } from '../http';
+import { getAirQuality } from '../weather/airQuality';
+import { deriveAlerts } from '../weather/alerts';
+import { resolveLocation, type LocationQuery } from '../weather/geocoding';
+import { UNIT_LABELS, type Units } from '../weather/units';
 
-interface GeocodingResponse {
-  results: {
-    latitude: number;
-    longitude: number;
-    name: string;
-  }[];
-}
 interface WeatherResponse {
+  timezone: string;
   current: {
     time: string;
     temperature_2m: number;
     apparent_temperature: number;
     relative_humidity_2m: number;
+    precipitation: number;
     wind_speed_10m: number;
     wind_gusts_10m: number;
     weather_code: number;
   };
+  daily?: {
+    time: string[];
+    weather_code: number[];
+    temperature_2m_max: number[];
+    temperature_2m_min: number[];
+    apparent_temperature_max: number[];
+    apparent_temperature_min: number[];
+    precipitation_sum: number[];
+    precipitation_probability_max: number[];
+    uv_index_max: number[];
+    wind_gusts_10m_max: number[];
+    sunrise: string[];
+    sunset: string[];
+  };
+  hourly?: {
+    time: string[];
+    temperature_2m: number[];
+    apparent_temperature: number[];
+    relative_humidity_2m: number[];
+    precipitation_probability: number[];
+    precipitation: number[];
+    wind_speed_10m: number[];
+    uv_index: number[];
+    weather_code: number[];
+  };
 }
 
+interface WeatherParams extends LocationQuery {
+  days?: number;
+  hourly?: number;
+  units?: Units;
+  timezone?: string;
+  includeAlerts?: boolean;
+  includeAirQuality?: boolean;
+}
+
+/** Forecast days inspected for alerts when the caller did not ask for a forecast. */
+const ALERT_LOOKAHEAD_DAYS = 2;
+
+const CURRENT_FIELDS = [
+  'temperature_2m',
+  'apparent_temperature',
+  'relative_humidity_2m',
+  'precipitation',
+  'wind_speed_10m',
+  'wind_gusts_10m',
+  'weather_code',
+];
+
+const DAILY_FIELDS = [
+  'weather_code',
+  'temperature_2m_max',
+  'temperature_2m_min',
+  'apparent_temperature_max',
+  'apparent_temperature_min',
+  'precipitation_sum',
+  'precipitation_probability_max',
+  'uv_index_max',
+  'wind_gusts_10m_max',
+  'sunrise',
+  'sunset',
+];
+
+const HOURLY_FIELDS = [
+  'temperature_2m',
+  'apparent_temperature',
+  'relative_humidity_2m',
+  'precipitation_probability',
+  'precipitation',
+  'wind_speed_10m',
+  'uv_index',
+  'weather_code',
+];
+
+const dailyForecastSchema = z.object({
+  date: z.string(),
+  conditions: z.string(),
+  temperatureMax: z.number(),
+  temperatureMin: z.number(),
+  feelsLikeMax: z.number(),
+  feelsLikeMin: z.number(),
+  precipitation: z.number(),
+  precipitationProbability: z.number().nullable(),
+  uvIndexMax: z.number().nullable(),
+  windGustMax: z.number(),
+  sunrise: z.string(),
+  sunset: z.string(),
+});
+
+const locationSchema = z.object({
+  name: z.string(),
+  latitude: z.number(),
+  longitude: z.number(),
+  country: z.string().nullable(),
+  countryCode: z.string().nullable(),
+  admin1: z.string().nullable(),
+  timezone: z.string().nullable(),
+  population: z.number().nullable(),
+});
+
+const alertSchema = z.object({
+  type: z.enum(['heat', 'freeze', 'wind', 'thunderstorm', 'heavy-precipitation', 'uv', 'air-quality']),
+  severity: z.enum(['minor', 'moderate', 'severe', 'extreme']),
+  date: z.string().describe('Forecast date, or "now" for current conditions'),
+  message: z.string(),
+});
+
+const airQualitySchema = z.object({
+  time: z.string(),
+  usAqi: z.number().nullable(),
+  europeanAqi: z.number().nullable(),
+  category: z.string().nullable(),
+  pm2_5: z.number().nullable(),
+  pm10: z.number().nullable(),
+  ozone: z.number().nullable(),
+  nitrogenDioxide: z.number().nullable(),
+  pollen: z.record(z.number().nullable()),
+  pollenLevel: z.enum(['none', 'low', 'moderate', 'high', 'very high']).nullable(),
+});
+
+const hourlyForecastSchema = z.object({
+  time: z.string(),
+  conditions: z.string(),
+  temperature: z.number(),
+  feelsLike: z.number(),
+  humidity: z.number(),
+  precipitationProbability: z.number().nullable(),
+  precipitation: z.number(),
+  windSpeed: z.number(),
+  uvIndex: z.number().nullable(),
+});
+
 export const weatherTool = createTool({
   id: 'get-weather',
-  description: 'Get current weather for a location',
+  description:
+    'Get current weather for a location, optionally with a daily and hourly forecast, severe weather alerts and air quality',
   inputSchema: z.object({
-    location: z.string().describe('City name'),
+    location: z.string().optional().describe('City name; may be omitted when latitude and longitude are given'),
+    latitude: z.number().min(-90).max(90).optional().describe('Latitude, used instead of geocoding the name'),
+    longitude: z.number().min(-180).max(180).optional().describe('Longitude, used instead of geocoding the name'),
+    country: z.string().optional().describe('Country name or ISO 3166-1 alpha-2 code to narrow the search, e.g. US'),
+    admin: z.string().optional().describe('State, province or region to narrow the search, e.g. Oregon'),
+    days: z.number().int().min(1).max(16).optional().describe('Number of forecast days to include, starting today'),
+    hourly: z.number().int().min(1).max(168).optional().describe('Number of hourly forecast rows to include, starting now'),
+    units: z.enum(['metric', 'imperial']).optional().describe('Unit system (default metric)'),
+    timezone: z.string().optional().describe('IANA timezone for times, e.g. Asia/Shanghai; defaults to the location timezone'),
+    includeAlerts: z.boolean().optional().describe('Derive heat, freeze, wind, storm, UV and air quality alerts (default true)'),
+    includeAirQuality: z.boolean().optional().describe('Include AQI, particulate matter and pollen (default false)'),
   }),
   outputSchema: z.object({
     temperature: z.number(),
     feelsLike: z.number(),
     humidity: z.number(),
+    precipitation: z.number(),
     windSpeed: z.number(),
     windGust: z.number(),
     conditions: z.string(),
     location: z.string(),
+    country: z.string().nullable(),
+    countryCode: z.string().nullable(),
+    admin1: z.string().nullable(),
+    latitude: z.number(),
+    longitude: z.number(),
+    timezone: z.string(),
+    ambiguous: z.boolean().describe('True when other places share the name; see candidates'),
+    candidates: z.array(locationSchema).describe('Alternative matches when the name is ambiguous, best first'),
+    units: z.object({
+      temperature: z.string(),
+      windSpeed: z.string(),
+      precipitation: z.string(),
+    }),
+    daily: z.array(dailyForecastSchema).optional(),
+    hourly: z.array(hourlyForecastSchema).optional(),
+    alerts: z.array(alertSchema).optional().describe('Most severe first'),
+    airQuality: airQualitySchema.optional(),
   }),
   execute: async ({ context }) => {
-    return await getWeather(context.location);
+    return await getWeather(context);
   },
 });
 
-const getWeather = async (location: string) => {
-  const geocodingUrl = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(location)}&count=1`;
-  const geocodingResponse = await fetch(geocodingUrl);
-  const geocodingData = (await geocodingResponse.json()) as GeocodingResponse;
+const getWeather = async ({
+  days,
+  hourly,
+  units = 'metric',
+  timezone = 'auto',
+  includeAlerts = true,
+  includeAirQuality = false,
+  ...query
+}: WeatherParams) => {
+  const { location: place, ambiguous, candidates } = await resolveLocation(query);
+  const { latitude, longitude } = place;
 
-  if (!geocodingData.results?.[0]) {
-    throw new Error(`Location '${location}' not found`);
+  const params = new URLSearchParams({
+    latitude: String(latitude),
+    longitude: String(longitude),
+    current: CURRENT_FIELDS.join(','),
+    timezone,
+  });
+  if (units === 'imperial') {
+    params.set('temperature_unit', 'fahrenheit');
+    params.set('wind_speed_unit', 'mph');
+    params.set('precipitation_unit', 'inch');
+  }
+  if (days || includeAlerts) {
+    params.set('daily', DAILY_FIELDS.join(','));
+    params.set('forecast_days', String(days ?? ALERT_LOOKAHEAD_DAYS));
+  }
+  if (hourly) {
+    params.set('hourly', HOURLY_FIELDS.join(','));
+    params.set('forecast_hours', String(hourly));
   }
 
-  const { latitude, longitude, name } = geocodingData.results[0];
-
-  const weatherUrl = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,apparent_temperature,relative_humidity_2m,wind_speed_10m,wind_gusts_10m,weather_code`;
+  const weatherUrl = `https://api.open-meteo.com/v1/forecast?${params}`;
+  const [data, airQuality] = await Promise.all([
+    fetchJson<WeatherResponse>(weatherUrl, { service: 'Open-Meteo forecast' }),
+    includeAirQuality ? getAirQuality(latitude, longitude, timezone) : undefined,
+  ]);
+  const daily = data.daily ? toDailyForecast(data.daily) : undefined;
 
-  const response = await fetch(weatherUrl);
-  const data = (await response.json()) as WeatherResponse;
+  const alerts = includeAlerts
+    ? deriveAlerts({
+        units,
+        current: {
+          feelsLike: data.current.apparent_temperature,
+          windGust: data.current.wind_gusts_10m,
+          weatherCode: data.current.weather_code,
+        },
+        daily: (daily ?? []).map((day, i) => ({ ...day, weatherCode: data.daily!.weather_code[i] })),
+        usAqi: airQuality?.usAqi,
+      })
+    : undefined;
 
   return {
     temperature: data.current.temperature_2m,
     feelsLike: data.current.apparent_temperature,
     humidity: data.current.relative_humidity_2m,
+    precipitation: data.current.precipitation,
     windSpeed: data.current.wind_speed_10m,
     windGust: data.current.wind_gusts_10m,
     conditions: getWeatherCondition(data.current.weather_code),
-    location: name,
+    location: place.name,
+    country: place.country,
+    countryCode: place.countryCode,
+    admin1: place.admin1,
+    latitude,
+    longitude,
+    timezone: data.timezone,
+    ambiguous,
+    candidates,
+    units: UNIT_LABELS[units],
+    ...(days && daily ? { daily } : {}),
+    ...(data.hourly ? { hourly: toHourlyForecast(data.hourly) } : {}),
+    ...(alerts ? { alerts } : {}),
+    ...(airQuality ? { airQuality } : {}),
   };
 };
 
+function toDailyForecast(daily: NonNullable<WeatherResponse['daily']>) {
+  return daily.time.map((date, i) => ({
+    date,
+    conditions: getWeatherCondition(daily.weather_code[i]),
+    temperatureMax: daily.temperature_2m_max[i],
+    temperatureMin: daily.temperature_2m_min[i],
+    feelsLikeMax: daily.apparent_temperature_max[i],
+    feelsLikeMin: daily.apparent_temperature_min[i],
+    precipitation: daily.precipitation_sum[i],
+    precipitationProbability: daily.precipitation_probability_max[i] ?? null,
+    uvIndexMax: daily.uv_index_max[i] ?? null,
+    windGustMax: daily.wind_gusts_10m_max[i],
+    sunrise: daily.sunrise[i],
+    sunset: daily.sunset[i],
+  }));
+}
+
+function toHourlyForecast(hourly: NonNullable<WeatherResponse['hourly']>) {
+  return hourly.time.map((time, i) => ({
+    time,
+    conditions: getWeatherCondition(hourly.weather_code[i]),
+    temperature: hourly.temperature_2m[i],
+    feelsLike: hourly.apparent_temperature[i],
+    humidity: hourly.relative_humidity_2m[i],
+    precipitationProbability: hourly.precipitation_probability[i] ?? null,
+    precipitation: hourly.precipitation[i],
+    windSpeed: hourly.wind_speed_10m[i],
+    uvIndex: hourly.uv_index[i] ?? null,
+  }));
+}
+
 function getWeatherCondition(code: number): string {
   const conditions: Record<number, string> = {
     0: 'Clear sky',
@@ -1,51 +1,55 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
+import { fetchPage } from '../web/fetchPage';
+
+const MAX_CHARS = 8000;
 
 export const webFetchTool = createTool({
   id: 'fetch-webpage',
-  description: 'Fetch the text content of a webpage URL for summarization',
+  description:
+    'Fetch a URL for summarization. HTML pages yield their main content (without navigation, ads and footers) plus title, byline, publish date, description and language; PDFs yield their text; JSON is pretty-printed or outlined; plain text and Markdown pass through; RSS/Atom feeds yield their latest items',
   inputSchema: z.object({
-    url: z.string().url().describe('The URL of the webpage to fetch'),
+    url: z.string().url().describe('The URL of the webpage, PDF, JSON document or feed to fetch'),
+    maxItems: z.number().int().min(1).max(50).optional().describe('For RSS/Atom feeds: how many of the latest items to return (default 10)'),
   }),
   outputSchema: z.object({
     url: z.string(),
-    content: z.string(),
-    truncated: z.boolean(),
+    kind: z.enum(['html', 'pdf', 'json', 'text', 'feed']),
+    contentType: z.string(),
+    title: z.string().optional(),
+    byline: z.string().optional().describe('Author(s) of the article'),
+    publishedAt: z.string().optional().describe('Publish date, ISO 8601 when it could be parsed'),
+    description: z.string().optional().describe('Meta or OpenGraph description'),
+    siteName: z.string().optional(),
+    language: z.string().optional().describe('Declared page language, e.g. en-US, zh-CN'),
+    openGraph: z.record(z.string()).describe('og:* and article:* meta properties'),
+    content: z.string().describe('Main content as Markdown-like text'),
+    pageCount: z.number().optional().describe('Number of pages, for PDFs'),
+    items: z
+      .array(
+        z.object({
+          title: z.string().optional(),
+          link: z.string().optional(),
+          publishedAt: z.string().optional(),
+          author: z.string().optional(),
+          summary: z.string().optional(),
+        }),
+      )
+      .optional()
+      .describe('Latest feed items, newest first, for RSS/Atom feeds'),
+    summarized: z.boolean().optional().describe('For JSON: content is an outline of the structure, not the document'),
+    truncated: z.boolean().describe('True when content was cut; use summarizePageTool to cover the whole page'),
+    totalChars: z.number().describe('Length of the full extracted content'),
   }),
   execute: async ({ context }) => {
-    const response = await fetch(context.url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; SummarizerBot/1.0)',
-        'Accept': 'text/html,application/xhtml+xml',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch URL: ${response.status} ${response.statusText}`);
-    }
-
-    const html = await response.text();
-
-    // Strip HTML tags and clean up whitespace
-    const text = html
-      .replace(/<script[\s\S]*?<\/script>/gi, '')
-      .replace(/<style[\s\S]*?<\/style>/gi, '')
-      .replace(/<[^>]+>/g, ' ')
-      .replace(/&nbsp;/g, ' ')
-      .replace(/&amp;/g, '&')
-      .replace(/&lt;/g, '<')
-      .replace(/&gt;/g, '>')
-      .replace(/&quot;/g, '"')
-      .replace(/\s+/g, ' ')
-      .trim();
-
-    const MAX_CHARS = 8000;
-    const truncated = text.length > MAX_CHARS;
+    const page = await fetchPage(context.url, { maxItems: context.maxItems });
+    const truncated = page.content.length > MAX_CHARS;
 
     return {
-      url: context.url,
-      content: truncated ? text.slice(0, MAX_CHARS) + '...' : text,
+      ...page,
+      content: truncated ? page.content.slice(0, MAX_CHARS) + '...' : page.content,
       truncated,
+      totalChars: page.content.length,
     };
   },
 });
@@ -0,0 +1,344 @@
+import { openai } from '@ai-sdk/openai';
+import { Agent } from '@mastra/core/agent';
+import { ErrorCode, ToolError } from '../errors';
+import { glossary } from './glossary';
+import { parseHtmlDocument } from './htmlDocument';
+import { parseJsonLocale } from './jsonLocale';
+import { MARKDOWN_PATTERNS, parseMarkdown } from './markdown';
+import { translationMemory, type MemoryMatch } from './memory';
+import {
+  hasTranslatableText,
+  placeholderSignature,
+  protectPlaceholders,
+  restorePlaceholders,
+  type ProtectedText,
+  type ProtectOptions,
+} from './placeholders';
+import { parsePo } from './po';
+import { parseXliff } from './xliff';
+
+export const DOCUMENT_FORMATS = ['markdown', 'html', 'json', 'po', 'xliff', 'text'] as const;
+export type DocumentFormat = (typeof DOCUMENT_FORMATS)[number];
+
+export interface Segment {
+  text: string;
+  /** Where the segment is in the document, e.g. a JSON path or line number. */
+  location: string;
+  /** The segment is HTML/XML: inline tags are kept and entities decoded. */
+  markup?: boolean;
+}
+
+export interface ParsedDocument {
+  segments: Segment[];
+  /** Rebuilds the document with one translation per segment, in order. */
+  rebuild(translations: string[], targetLanguage: string): string;
+}
+
+export interface DocumentIssue {
+  location: string;
+  kind: 'placeholder' | 'failed';
+  message: string;
+}
+
+export interface DocumentTranslation {
+  content: string;
+  format: DocumentFormat;
+  /** Segments found in the document. */
+  segments: number;
+  /** Segments sent to the model. */
+  translated: number;
+  /** Segments taken from exact translation memory matches. */
+  reused: number;
+  /** Segments left in the source language because their translation failed verification. */
+  issues: DocumentIssue[];
+}
+
+export interface TranslateDocumentInput {
+  content: string;
+  format?: DocumentFormat;
+  /** Used to detect the format when `format` is not given. */
+  filename?: string;
+  sourceLanguage?: string;
+  targetLanguage: string;
+  /** PO and XLIFF: also retranslate entries that already have a translation. */
+  overwrite?: boolean;
+  /** Consult the translation memory; needs `sourceLanguage`. Defaults to true. */
+  useMemory?: boolean;
+}
+
+/** Segments per model request. */
+const BATCH_SEGMENTS = 40;
+/** Characters per model request. */
+const BATCH_CHARS = 6000;
+const CONCURRENCY = 3;
+export const MAX_SEGMENTS = 3000;
+
+const segmentTranslator = new Agent({
+  name: 'Segment Translator',
+  instructions: `
+    You translate segments extracted from software strings and documents.
+    Tokens such as ⟦0⟧ stand for placeholders, markup and code. Copy every token exactly once, unchanged, placed where it belongs in the translated sentence.
+    Translate only the text. Do not add explanations, quotes or notes.
+  `,
+  model: openai('gpt-4o-mini'),
+});
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  mdx: 'markdown',
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  json: 'json',
+  po: 'po',
+  pot: 'po',
+  xlf: 'xliff',
+  xliff: 'xliff',
+  txt: 'text',
+};
+
+/**
+ * Picks the format from the file extension, or failing that from the
+ * content itself.
+ */
+export function detectFormat(content: string, filename?: string): DocumentFormat {
+  const extension = filename?.split('.').pop()?.toLowerCase();
+  if (extension && EXTENSIONS[extension]) return EXTENSIONS[extension];
+
+  const start = content.trimStart().slice(0, 2000);
+  if (/^<\?xml[\s\S]*?<xliff\b|^<xliff\b/.test(start)) return 'xliff';
+  if (/^[{[]/.test(start)) return 'json';
+  if (/^(#[^\n]*\n)*\s*msgid\s+"/m.test(start)) return 'po';
+  if (/^<(!doctype html|html|head|body|div|p|section|article|span|h[1-6]|ul|table)[\s>]/i.test(start)) return 'html';
+  if (/^(#{1,6}\s|[-*+]\s|\d+\.\s|```|>\s)|\[[^\]]+\]\([^)]+\)/m.test(start)) return 'markdown';
+  return 'text';
+}
+
+function parseText(content: string): ParsedDocument {
+  const start = content.length - content.trimStart().length;
+  const body = content.trim();
+  const leading = content.slice(0, start);
+  const trailing = content.slice(start + body.length);
+  return {
+    segments: body ? [{ text: body, location: 'text' }] : [],
+    rebuild: translations => (body ? leading + translations[0] + trailing : content),
+  };
+}
+
+export function parseDocument(content: string, format: DocumentFormat, { overwrite = false } = {}): ParsedDocument {
+  switch (format) {
+    case 'markdown':
+      return parseMarkdown(content);
+    case 'html':
+      return parseHtmlDocument(content);
+    case 'json':
+      return parseJsonLocale(content);
+    case 'po':
+      return parsePo(content, { overwrite });
+    case 'xliff':
+      return parseXliff(content, { overwrite });
+    case 'text':
+      return parseText(content);
+  }
+}
+
+interface PendingSegment {
+  /** Indexes of the document segments with this text. */
+  indexes: number[];
+  source: string;
+  protectedText: ProtectedText;
+  markup: boolean;
+  /** Model output, still with tokens. */
+  translation?: string;
+  /** Final text from an exact translation memory match. */
+  reused?: string;
+  /** Fuzzy translation memory matches, given to the model as references. */
+  references?: MemoryMatch[];
+}
+
+function batches(items: PendingSegment[]): PendingSegment[][] {
+  const result: PendingSegment[][] = [];
+  let current: PendingSegment[] = [];
+  let chars = 0;
+  for (const item of items) {
+    if (current.length && (current.length >= BATCH_SEGMENTS || chars + item.protectedText.text.length > BATCH_CHARS)) {
+      result.push(current);
+      current = [];
+      chars = 0;
+    }
+    current.push(item);
+    chars += item.protectedText.text.length;
+  }
+  if (current.length) result.push(current);
+  return result;
+}
+
+function parseJsonArray(text: string): unknown[] | undefined {
+  const start = text.indexOf('[');
+  const end = text.lastIndexOf(']');
+  if (start < 0 || end < start) return undefined;
+  try {
+    const value = JSON.parse(text.slice(start, end + 1));
+    return Array.isArray(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function terminology(texts: string[], sourceLanguage: string, targetLanguage: string): Promise<string> {
+  const terms = await glossary.lookup(texts.join('\n'), sourceLanguage, targetLanguage).catch(() => []);
+  if (!terms.length) return '';
+  return [
+    'Use this terminology:',
+    ...terms.map(term => (term.doNotTranslate ? `- "${term.term}": keep as is` : `- "${term.term}" → "${term.expected}"`)),
+  ].join('\n');
+}
+
+function referenceLines(batch: PendingSegment[]): string {
+  const lines = batch.flatMap((segment, index) =>
+    (segment.references ?? []).map(match => `- string ${index}: "${match.source}" was translated as "${match.target}" (${Math.round(match.score * 100)}% similar)`),
+  );
+  if (!lines.length) return '';
+  return ['Approved translations of similar strings; reuse their wording where it fits:', ...lines].join('\n');
+}
+
+/**
+ * Translates a batch as a JSON array of strings. Returns undefined when the
+ * reply is not an array of the same length, so the caller can fall back to
+ * one request per segment.
+ */
+async function translateBatch(batch: PendingSegment[], input: TranslateDocumentInput): Promise<string[] | undefined> {
+  const sourceLanguage = input.sourceLanguage ?? '*';
+  const texts = batch.map(segment => segment.protectedText.text);
+  const { text } = await segmentTranslator.generate(
+    [
+      `Translate each string in this JSON array ${input.sourceLanguage ? `from ${input.sourceLanguage} ` : ''}to ${input.targetLanguage}.`,
+      'Reply with only a JSON array of the translated strings, in the same order and with the same length.',
+      await terminology(texts, sourceLanguage, input.targetLanguage),
+      referenceLines(batch),
+      '',
+      JSON.stringify(texts),
+    ].join('\n'),
+  );
+  const result = parseJsonArray(text);
+  if (!result || result.length !== texts.length || result.some(item => typeof item !== 'string')) return undefined;
+  return result as string[];
+}
+
+async function translateOne(segment: PendingSegment, input: TranslateDocumentInput, strict: boolean): Promise<string> {
+  const { text } = segment.protectedText;
+  const result = await segmentTranslator.generate(
+    [
+      `Translate the text below ${input.sourceLanguage ? `from ${input.sourceLanguage} ` : ''}to ${input.targetLanguage}. Reply with only the translation.`,
+      strict ? 'Your previous translation lost or repeated some ⟦n⟧ tokens. Every token below must appear exactly once.' : '',
+      await terminology([text], input.sourceLanguage ?? '*', input.targetLanguage),
+      referenceLines([segment]).replace(/string 0: /g, ''),
+      '',
+      text,
+    ].join('\n'),
+  );
+  return result.text.trim();
+}
+
+function tokenProblems(translation: string, segment: PendingSegment): string[] {
+  const restored = restorePlaceholders(translation, segment.protectedText, { markup: segment.markup });
+  return [
+    ...restored.missing.map(raw => `missing ${raw}`),
+    ...restored.duplicated.map(raw => `repeated ${raw}`),
+    ...restored.unknown.map(raw => `unexpected ${raw}`),
+  ];
+}
+
+/**
+ * Translates a structured document segment by segment and rebuilds it.
+ * Placeholders, markup and code are replaced by tokens before translation
+ * and restored afterwards; a segment whose tokens do not survive is
+ * retried on its own, and kept in the source language with an issue if
+ * it fails again. Identical segments are translated once, and segments
+ * with an exact translation memory match are not sent at all.
+ */
+export async function translateDocument(input: TranslateDocumentInput): Promise<DocumentTranslation> {
+  const format = input.format ?? detectFormat(input.content, input.filename);
+  const document = parseDocument(input.content, format, { overwrite: input.overwrite });
+  if (document.segments.length > MAX_SEGMENTS) {
+    throw new ToolError(ErrorCode.INVALID_INPUT, `Document has ${document.segments.length} segments; at most ${MAX_SEGMENTS} can be translated at once`, {
+      segments: document.segments.length,
+    });
+  }
+
+  const protectOptions: ProtectOptions = format === 'markdown' ? { patterns: MARKDOWN_PATTERNS } : {};
+  const pendingByText = new Map<string, PendingSegment>();
+  document.segments.forEach((segment, index) => {
+    const protectedText = protectPlaceholders(segment.text, { ...protectOptions, markup: segment.markup });
+    if (!hasTranslatableText(protectedText.text)) return;
+    const key = `${segment.markup ? 'm' : 't'}:${segment.text}`;
+    const pending = pendingByText.get(key);
+    if (pending) pending.indexes.push(index);
+    else pendingByText.set(key, { indexes: [index], source: segment.text, protectedText, markup: segment.markup ?? false });
+  });
+  const pending = [...pendingByText.values()];
+  const samePlaceholders = (source: string, translation: string, markup: boolean) => {
+    const options = { ...protectOptions, markup };
+    return placeholderSignature(source, options).join('\u0000') === placeholderSignature(translation, options).join('\u0000');
+  };
+
+  if (input.sourceLanguage && input.useMemory !== false) {
+    for (const segment of pending) {
+      const matches = await translationMemory.lookup(segment.source, input.sourceLanguage, input.targetLanguage).catch(() => []);
+      // An exact match whose placeholders differ is only a reference.
+      if (matches[0]?.exact && samePlaceholders(segment.source, matches[0].target, segment.markup)) segment.reused = matches[0].target;
+      else if (matches.length) segment.references = matches;
+    }
+  }
+
+  const queue = batches(pending.filter(segment => segment.reused === undefined));
+  const translatedCount = queue.flat().reduce((count, segment) => count + segment.indexes.length, 0);
+  const worker = async () => {
+    for (let batch = queue.shift(); batch; batch = queue.shift()) {
+      const translations = await translateBatch(batch, input).catch(() => undefined);
+      for (const [i, segment] of batch.entries()) {
+        let translation = translations?.[i] ?? (await translateOne(segment, input, false).catch(() => undefined));
+        if (translation !== undefined && tokenProblems(translation, segment).length) {
+          translation = await translateOne(segment, input, true).catch(() => translation);
+        }
+        segment.translation = translation;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(CONCURRENCY, queue.length)) }, worker));
+
+  const issues: DocumentIssue[] = [];
+  const translations = document.segments.map(segment => segment.text);
+  for (const segment of pending) {
+    const location = document.segments[segment.indexes[0]].location;
+    if (segment.reused !== undefined) {
+      for (const index of segment.indexes) translations[index] = segment.reused;
+      continue;
+    }
+    if (segment.translation === undefined) {
+      issues.push({ location, kind: 'failed', message: 'Translation failed; kept the source text' });
+      continue;
+    }
+    const problems = tokenProblems(segment.translation, segment);
+    const restored = restorePlaceholders(segment.translation, segment.protectedText, { markup: segment.markup }).text;
+    // Independent check on the final text: the same placeholders as the source.
+    if (!problems.length && !samePlaceholders(segment.source, restored, segment.markup)) {
+      problems.push('placeholders differ from the source');
+    }
+    if (problems.length) {
+      issues.push({ location, kind: 'placeholder', message: `${problems.join(', ')}; kept the source text` });
+      continue;
+    }
+    for (const index of segment.indexes) translations[index] = restored;
+  }
+
+  return {
+    content: document.rebuild(translations, input.targetLanguage),
+    format,
+    segments: document.segments.length,
+    translated: translatedCount,
+    reused: pending.filter(segment => segment.reused !== undefined).reduce((count, segment) => count + segment.indexes.length, 0),
+    issues,
+  };
+}
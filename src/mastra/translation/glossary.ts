@@ -0,0 +1,229 @@
+import type { Client, InStatement, Row } from '@libsql/client';
+import { getDatabase } from '../database';
+import { ErrorCode, ToolError } from '../errors';
+
+/** Matches any language on that side of a pair. */
+export const ANY_LANGUAGE = '*';
+
+export interface GlossaryEntry {
+  term: string;
+  /** Required rendering in the target language. Ignored for do-not-translate entries. */
+  translation?: string;
+  /** Keep the term exactly as written, e.g. product and brand names. */
+  doNotTranslate?: boolean;
+  /** Match the term's case exactly in the source text. */
+  caseSensitive?: boolean;
+  note?: string;
+}
+
+export interface TermMatch extends GlossaryEntry {
+  /** What the translation must contain for this term. */
+  expected: string;
+  /** Occurrences in the source text. */
+  occurrences: number;
+  /** Pair the entry came from, e.g. "en→zh" or "*→*". */
+  pair: string;
+}
+
+export interface GlossaryViolation {
+  term: string;
+  expected: string;
+  kind: 'missing' | 'translated';
+  sourceOccurrences: number;
+  message: string;
+}
+
+/** Lowercases a language tag and uses '-' as separator: zh_CN → zh-cn. */
+export function normalizeLanguage(tag: string): string {
+  return tag.trim().replace(/_/g, '-').toLowerCase() || ANY_LANGUAGE;
+}
+
+/** The tag, its primary language, then any: zh-hant-tw → zh-hant-tw, zh, *. */
+function fallbackTags(tag: string): string[] {
+  const normalized = normalizeLanguage(tag);
+  const primary = normalized.split('-')[0];
+  return [...new Set([normalized, primary, ANY_LANGUAGE])];
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Scripts written with spaces between words, where a term must match whole words. */
+const WORD_CHAR = /[\p{Script=Latin}\p{Script=Cyrillic}\p{Script=Greek}\p{Script=Arabic}\p{Script=Hebrew}\p{N}_]/u;
+
+function termPattern(term: string, caseSensitive: boolean): RegExp {
+  const before = WORD_CHAR.test(term[0]) ? '(?<![\\p{L}\\p{N}_])' : '';
+  const after = WORD_CHAR.test(term[term.length - 1]) ? '(?![\\p{L}\\p{N}_])' : '';
+  return new RegExp(`${before}${escapeRegExp(term)}${after}`, caseSensitive ? 'gu' : 'giu');
+}
+
+/**
+ * Counts occurrences of each term, longest terms first, so "Mastra Cloud"
+ * is not also counted as "Mastra".
+ */
+function countTerms(text: string, terms: Array<{ term: string; caseSensitive?: boolean }>): Map<string, number> {
+  const counts = new Map<string, number>();
+  let remaining = text;
+  for (const { term, caseSensitive } of [...terms].sort((a, b) => b.term.length - a.term.length)) {
+    let count = 0;
+    remaining = remaining.replace(termPattern(term, caseSensitive ?? false), match => {
+      count++;
+      return '\u0000'.repeat(match.length);
+    });
+    counts.set(term, count);
+  }
+  return counts;
+}
+
+function expectedRendering(entry: GlossaryEntry): string {
+  return entry.doNotTranslate ? entry.term : entry.translation!;
+}
+
+function validateEntry(entry: GlossaryEntry): GlossaryEntry {
+  const term = entry.term.trim();
+  if (!term) throw new ToolError(ErrorCode.INVALID_INPUT, 'Glossary terms must not be empty');
+  if (!entry.doNotTranslate && !entry.translation?.trim()) {
+    throw new ToolError(ErrorCode.INVALID_INPUT, `Glossary term '${term}' needs a translation or doNotTranslate`, { term });
+  }
+  return { ...entry, term, translation: entry.doNotTranslate ? undefined : entry.translation!.trim() };
+}
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS glossary_terms (
+    source_language TEXT NOT NULL,
+    target_language TEXT NOT NULL,
+    term_key TEXT NOT NULL,
+    term TEXT NOT NULL,
+    translation TEXT,
+    do_not_translate INTEGER NOT NULL DEFAULT 0,
+    case_sensitive INTEGER NOT NULL DEFAULT 0,
+    note TEXT,
+    PRIMARY KEY (source_language, target_language, term_key)
+  )`,
+];
+
+function toEntry(row: Row): GlossaryEntry {
+  return {
+    term: String(row.term),
+    ...(row.translation !== null ? { translation: String(row.translation) } : {}),
+    ...(row.do_not_translate ? { doNotTranslate: true } : {}),
+    ...(row.case_sensitive ? { caseSensitive: true } : {}),
+    ...(row.note ? { note: String(row.note) } : {}),
+  };
+}
+
+/**
+ * Per-language-pair terminology, one row per term keyed by pair and
+ * lowercased term, so concurrent edits to different terms never overwrite
+ * each other. Lookups merge the exact pair with its primary-language and
+ * `*` fallbacks, the most specific pair winning for a term.
+ */
+export class Glossary {
+  private ready?: Promise<void>;
+
+  constructor(private connect: () => Client) {}
+
+  private get client(): Client {
+    return this.connect();
+  }
+
+  private async schema(): Promise<void> {
+    await (this.ready ??= this.client.batch(SCHEMA, 'write').then(() => undefined));
+  }
+
+  private async execute(statement: InStatement) {
+    await this.schema();
+    return this.client.execute(statement);
+  }
+
+  async list(source: string, target: string): Promise<GlossaryEntry[]> {
+    const { rows } = await this.execute({
+      sql: 'SELECT * FROM glossary_terms WHERE source_language = ? AND target_language = ? ORDER BY term',
+      args: [normalizeLanguage(source), normalizeLanguage(target)],
+    });
+    return rows.map(toEntry);
+  }
+
+  /** Adds entries to a pair, replacing existing entries for the same term (case-insensitive). */
+  async upsert(source: string, target: string, entries: GlossaryEntry[]): Promise<GlossaryEntry[]> {
+    const pair = [normalizeLanguage(source), normalizeLanguage(target)];
+    const statements = entries.map(validateEntry).map(entry => ({
+      sql: `INSERT INTO glossary_terms (source_language, target_language, term_key, term, translation, do_not_translate, case_sensitive, note)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (source_language, target_language, term_key) DO UPDATE SET
+          term = excluded.term, translation = excluded.translation, do_not_translate = excluded.do_not_translate,
+          case_sensitive = excluded.case_sensitive, note = excluded.note`,
+      args: [...pair, entry.term.toLowerCase(), entry.term, entry.translation ?? null, entry.doNotTranslate ? 1 : 0, entry.caseSensitive ? 1 : 0, entry.note ?? null],
+    }));
+    await this.schema();
+    if (statements.length) await this.client.batch(statements, 'write');
+    return this.list(source, target);
+  }
+
+  /** Removes terms from a pair and returns how many were removed. */
+  async remove(source: string, target: string, terms: string[]): Promise<number> {
+    const keys = [...new Set(terms.map(term => term.trim().toLowerCase()))];
+    if (!keys.length) return 0;
+    const { rowsAffected } = await this.execute({
+      sql: `DELETE FROM glossary_terms WHERE source_language = ? AND target_language = ? AND term_key IN (${keys.map(() => '?').join(', ')})`,
+      args: [normalizeLanguage(source), normalizeLanguage(target), ...keys],
+    });
+    return rowsAffected;
+  }
+
+  /** Every entry that applies to the pair, after fallbacks. */
+  async entriesFor(source: string, target: string): Promise<Array<GlossaryEntry & { pair: string }>> {
+    const sourceTags = fallbackTags(source);
+    const targetTags = fallbackTags(target);
+    const { rows } = await this.execute({
+      sql: `SELECT * FROM glossary_terms
+        WHERE source_language IN (${sourceTags.map(() => '?').join(', ')}) AND target_language IN (${targetTags.map(() => '?').join(', ')})`,
+      args: [...sourceTags, ...targetTags],
+    });
+    // Least specific first so more specific pairs overwrite.
+    const specificity = (row: Row) =>
+      sourceTags.indexOf(String(row.source_language)) * targetTags.length + targetTags.indexOf(String(row.target_language));
+    const byTerm = new Map<string, GlossaryEntry & { pair: string }>();
+    for (const row of [...rows].sort((a, b) => specificity(b) - specificity(a))) {
+      byTerm.set(String(row.term_key), { ...toEntry(row), pair: `${row.source_language}→${row.target_language}` });
+    }
+    return [...byTerm.values()];
+  }
+
+  /** Glossary terms that occur in `text`, with the rendering each requires. */
+  async lookup(text: string, source: string, target: string): Promise<TermMatch[]> {
+    const entries = await this.entriesFor(source, target);
+    const counts = countTerms(text, entries);
+    return entries
+      .filter(entry => counts.get(entry.term)! > 0)
+      .map(entry => ({ ...entry, expected: expectedRendering(entry), occurrences: counts.get(entry.term)! }));
+  }
+
+  /**
+   * Flags glossary terms in the source whose required rendering is absent
+   * from the translation. Renderings are matched case-insensitively except
+   * for do-not-translate terms, which must appear exactly.
+   */
+  async check(sourceText: string, translation: string, source: string, target: string): Promise<GlossaryViolation[]> {
+    const matches = await this.lookup(sourceText, source, target);
+    const counts = countTerms(
+      translation,
+      matches.map(match => ({ term: match.expected, caseSensitive: match.doNotTranslate || match.caseSensitive })),
+    );
+
+    return matches
+      .filter(match => !counts.get(match.expected))
+      .map(match => ({
+        term: match.term,
+        expected: match.expected,
+        kind: match.doNotTranslate ? ('translated' as const) : ('missing' as const),
+        sourceOccurrences: match.occurrences,
+        message: match.doNotTranslate
+          ? `'${match.term}' must be kept untranslated but does not appear in the translation`
+          : `'${match.term}' must be translated as '${match.expected}', which does not appear in the translation`,
+      }));
+  }
+}
+
+export const glossary = new Glossary(getDatabase);
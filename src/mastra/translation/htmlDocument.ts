@@ -0,0 +1,140 @@
+import type { ParsedDocument, Segment } from './documents';
+
+/** Elements that flow inside a sentence; runs of text and these elements form one segment. */
+const INLINE_ELEMENTS = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'br', 'cite', 'code', 'data', 'del', 'dfn', 'em', 'font', 'i', 'ins', 'kbd',
+  'label', 'mark', 'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var', 'wbr',
+]);
+
+/** Elements whose content is never translated. */
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'pre', 'textarea', 'svg', 'math', 'noscript']);
+
+const TRANSLATABLE_ATTRIBUTES = ['alt', 'title', 'placeholder', 'aria-label'];
+
+const TOKEN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/?([A-Za-z][^\s/>]*)(?:[^>"']|"[^"]*"|'[^']*')*>/g;
+
+type Part = string | { segment: number } | { tag: string; attributes: Array<{ name: string; segment: number }> };
+
+function tagName(raw: string): string | undefined {
+  return /^<\/?([A-Za-z][^\s/>]*)/.exec(raw)?.[1].toLowerCase();
+}
+
+function isClosing(raw: string) {
+  return raw.startsWith('</');
+}
+
+function hasTranslateNo(raw: string) {
+  return /\stranslate\s*=\s*["']?no\b/i.test(raw) || /\sclass\s*=\s*["'][^"']*\bnotranslate\b/i.test(raw);
+}
+
+/**
+ * HTML documents and fragments. Text with its inline elements forms one
+ * segment per block, so sentences keep their links and emphasis; script,
+ * style, pre and elements marked translate="no" are skipped. The alt,
+ * title, placeholder and aria-label attributes of tags outside a text run
+ * (e.g. a standalone image) and meta descriptions are translated too, and
+ * the lang attribute of <html> is set to the target language.
+ */
+export function parseHtmlDocument(content: string): ParsedDocument {
+  const segments: Segment[] = [];
+  const parts: Part[] = [];
+  let run: string[] = [];
+  let runHasText = false;
+  /** Tag name and depth of the element being skipped. */
+  let skipping: { name: string; depth: number } | undefined;
+
+  const addSegment = (text: string, location: string) => {
+    segments.push({ text, location, markup: true });
+    return { segment: segments.length - 1 };
+  };
+
+  const standaloneTag = (raw: string) => {
+    const name = tagName(raw);
+    const isMetaDescription = name === 'meta' && /\s(name|property)\s*=\s*["']?(description|og:title|og:description|twitter:title|twitter:description)\b/i.test(raw);
+    const names = isMetaDescription ? ['content'] : TRANSLATABLE_ATTRIBUTES;
+    const attributes: Array<{ name: string; segment: number }> = [];
+    for (const attribute of names) {
+      const value = new RegExp(`\\s${attribute}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i').exec(raw);
+      const text = value?.[2] ?? value?.[3];
+      if (text?.trim()) attributes.push({ name: attribute, ...addSegment(text, `<${name} ${attribute}>`) });
+    }
+    parts.push(attributes.length || name === 'html' ? { tag: raw, attributes } : raw);
+  };
+
+  const flush = () => {
+    if (runHasText) {
+      const text = run.join('');
+      const [, leading, body, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+      parts.push(leading, addSegment(body, `text "${body.replace(/<[^>]*>/g, '').trim().slice(0, 40)}"`), trailing);
+    } else {
+      for (const piece of run) {
+        if (piece.startsWith('<') && !isClosing(piece)) standaloneTag(piece);
+        else parts.push(piece);
+      }
+    }
+    run = [];
+    runHasText = false;
+  };
+
+  let last = 0;
+  const pieces: string[] = [];
+  for (const match of content.matchAll(TOKEN)) {
+    if (match.index! > last) pieces.push(content.slice(last, match.index));
+    pieces.push(match[0]);
+    last = match.index! + match[0].length;
+  }
+  if (last < content.length) pieces.push(content.slice(last));
+
+  for (const piece of pieces) {
+    const name = piece.startsWith('<') ? tagName(piece) : undefined;
+
+    if (skipping) {
+      parts.push(piece);
+      if (name === skipping.name) {
+        if (isClosing(piece)) skipping.depth--;
+        else if (!piece.endsWith('/>')) skipping.depth++;
+        if (skipping.depth === 0) skipping = undefined;
+      }
+      continue;
+    }
+
+    if (!piece.startsWith('<') || (name && INLINE_ELEMENTS.has(name) && !hasTranslateNo(piece))) {
+      run.push(piece);
+      if (!name && piece.trim()) runHasText = true;
+      continue;
+    }
+
+    flush();
+    if (name && !isClosing(piece) && !piece.endsWith('/>') && (SKIPPED_ELEMENTS.has(name) || hasTranslateNo(piece))) {
+      parts.push(piece);
+      skipping = { name, depth: 1 };
+    } else if (name && !isClosing(piece)) {
+      standaloneTag(piece);
+    } else {
+      parts.push(piece);
+    }
+  }
+  flush();
+
+  return {
+    segments,
+    rebuild: (translations, targetLanguage) =>
+      parts
+        .map(part => {
+          if (typeof part === 'string') return part;
+          if ('segment' in part) return translations[part.segment];
+          let tag = part.tag;
+          for (const { name, segment } of part.attributes) {
+            const value = translations[segment];
+            tag = tag.replace(new RegExp(`(\\s${name}\\s*=\\s*)("[^"]*"|'[^']*')`, 'i'), (_, prefix: string) => `${prefix}"${value}"`);
+          }
+          if (tagName(tag) === 'html') {
+            tag = /\slang\s*=/i.test(tag)
+              ? tag.replace(/(\slang\s*=\s*)("[^"]*"|'[^']*'|[^\s>]+)/i, (_, prefix: string) => `${prefix}"${targetLanguage}"`)
+              : tag.replace(/^<html/i, `<html lang="${targetLanguage}"`);
+          }
+          return tag;
+        })
+        .join(''),
+  };
+}
@@ -0,0 +1,47 @@
+import { ErrorCode, ToolError } from '../errors';
+import type { ParsedDocument, Segment } from './documents';
+
+function detectIndent(content: string): string {
+  return /\n([ \t]+)\S/.exec(content)?.[1] ?? '';
+}
+
+/**
+ * JSON locale files (i18next, vue-i18n, ICU message catalogs): every string
+ * value is a segment, keys and non-string values are kept. The file is
+ * re-serialized with its original indentation.
+ */
+export function parseJsonLocale(content: string): ParsedDocument {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new ToolError(ErrorCode.INVALID_INPUT, `Invalid JSON: ${(error as Error).message}`);
+  }
+
+  const segments: Segment[] = [];
+  const collect = (value: unknown, path: string) => {
+    if (typeof value === 'string') segments.push({ text: value, location: path || '$' });
+    else if (Array.isArray(value)) value.forEach((item, index) => collect(item, `${path}[${index}]`));
+    else if (value && typeof value === 'object') {
+      for (const [key, item] of Object.entries(value)) collect(item, path ? `${path}.${key}` : key);
+    }
+  };
+  collect(data, '');
+
+  return {
+    segments,
+    rebuild: translations => {
+      let next = 0;
+      const replace = (value: unknown): unknown => {
+        if (typeof value === 'string') return translations[next++];
+        if (Array.isArray(value)) return value.map(replace);
+        if (value && typeof value === 'object') {
+          return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, replace(item)]));
+        }
+        return value;
+      };
+      const trailingNewline = content.endsWith('\n') ? '\n' : '';
+      return JSON.stringify(replace(data), null, detectIndent(content)) + trailingNewline;
+    },
+  };
+}
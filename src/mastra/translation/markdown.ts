@@ -0,0 +1,134 @@
+import type { ParsedDocument, Segment } from './documents';
+
+/**
+ * Inline Markdown that must not be translated: code spans, link and image
+ * destinations, reference labels, autolinks and heading ids.
+ */
+export const MARKDOWN_PATTERNS = [/(`+)[\s\S]*?\1/, /\]\([^)\s]*(?:\s+"[^"]*")?\)/, /\]\[[^\]]*\]/, /<(?:https?|mailto):[^>\s]*>/, /\{#[\w-]+\}/];
+
+type Part = string | { segment: number; indent: string };
+
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const FRONT_MATTER = /^---\s*$/;
+const HEADING = /^(\s{0,3}#{1,6}\s+)(.*?)(\s+#+\s*)?$/;
+const LIST_ITEM = /^(\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?)(.*)$/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?(?:\s*:?-+:?\s*\|)+\s*:?-*:?\s*\|?\s*$/;
+const RULE = /^\s*([-*_])(?:\s*\1){2,}\s*$/;
+const SETEXT_UNDERLINE = /^\s*(=+|-+)\s*$/;
+const REFERENCE_DEFINITION = /^\s*\[[^\]]+\]:\s*\S+/;
+const QUOTE = /^(\s*(?:>\s?)+)(.*)$/;
+
+/**
+ * Markdown documents: headings, paragraphs, list items, blockquotes and
+ * table cells are segments, with each paragraph (including its wrapped
+ * lines) sent as one segment. Code blocks, front matter, rules and link
+ * reference definitions are kept as written.
+ */
+export function parseMarkdown(content: string): ParsedDocument {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+  const segments: Segment[] = [];
+  const parts: Part[] = [];
+  /** The open paragraph or list item, which following plain lines continue. */
+  let block: { lines: string[]; prefix: string; indent?: string; quote: string; line: number } | undefined;
+
+  const flush = () => {
+    if (!block) return;
+    segments.push({ text: block.lines.join('\n'), location: `line ${block.line}` });
+    parts.push(block.prefix, { segment: segments.length - 1, indent: block.indent ?? '' }, eol);
+    block = undefined;
+  };
+
+  const literal = (line: string) => {
+    flush();
+    parts.push(line, eol);
+  };
+
+  let fence: string | undefined;
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+
+    if (index === 0 && FRONT_MATTER.test(line)) {
+      const end = lines.findIndex((next, i) => i > 0 && FRONT_MATTER.test(next));
+      if (end > 0) {
+        for (; index <= end; index++) literal(lines[index]);
+        index--;
+        continue;
+      }
+    }
+
+    const fenceMatch = FENCE.exec(line);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) fence = undefined;
+      literal(line);
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      literal(line);
+      continue;
+    }
+
+    const [, quote = '', rest = line] = QUOTE.exec(line) ?? [];
+    const blank = !rest.trim();
+    const indentedCode = /^( {4}|\t)/.test(rest) && !block && !LIST_ITEM.test(rest);
+
+    if (blank || indentedCode || RULE.test(rest) || REFERENCE_DEFINITION.test(rest) || TABLE_SEPARATOR.test(rest) || (block && SETEXT_UNDERLINE.test(rest))) {
+      literal(line);
+      continue;
+    }
+
+    const heading = HEADING.exec(rest);
+    if (heading) {
+      flush();
+      segments.push({ text: heading[2], location: `line ${index + 1}` });
+      parts.push(quote + heading[1], { segment: segments.length - 1, indent: '' }, (heading[3] ?? '') + eol);
+      continue;
+    }
+
+    if (TABLE_ROW.test(rest)) {
+      flush();
+      const cells = rest.split(/(?<!\\)\|/);
+      parts.push(quote);
+      cells.forEach((cell, cellIndex) => {
+        if (cellIndex > 0) parts.push('|');
+        const [, leading, text, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(cell)!;
+        if (!text) return void parts.push(cell);
+        segments.push({ text, location: `line ${index + 1} cell ${cellIndex}` });
+        parts.push(leading, { segment: segments.length - 1, indent: '' }, trailing);
+      });
+      parts.push(eol);
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(rest);
+    if (item) {
+      flush();
+      block = { lines: [item[2]], prefix: quote + item[1], quote, line: index + 1 };
+      continue;
+    }
+
+    if (block && block.quote === quote) {
+      const [, indent, text] = /^(\s*)(.*)$/.exec(rest)!;
+      block.indent ??= quote + indent;
+      block.lines.push(text);
+      continue;
+    }
+
+    flush();
+    const [, indent, text] = /^(\s*)(.*)$/.exec(rest)!;
+    block = { lines: [text], prefix: quote + indent, quote, line: index + 1 };
+  }
+  flush();
+  // The loop ends every line with eol; the document's last line has none.
+  parts.pop();
+
+  return {
+    segments,
+    rebuild: translations =>
+      parts
+        .map(part => (typeof part === 'string' ? part : translations[part.segment].split(/\r?\n/).join(eol + part.indent)))
+        .join(''),
+  };
+}
@@ -0,0 +1,332 @@
+import { createHash } from 'crypto';
+import type { Client, InStatement, Row } from '@libsql/client';
+import { getDatabase } from '../database';
+import { editDistance } from '../editDistance';
+import { ErrorCode, ToolError } from '../errors';
+import { decodeEntities } from '../web/entities';
+import { normalizeLanguage } from './glossary';
+
+/** Oldest units are dropped beyond this many per language pair. */
+const MAX_UNITS_PER_PAIR = 20_000;
+/** Longer segments are only matched exactly. */
+const MAX_FUZZY_CHARS = 2000;
+export const DEFAULT_MIN_SCORE = 0.75;
+
+export interface TranslationUnit {
+  source: string;
+  target: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  createdAt: string;
+  updatedAt: string;
+  note?: string;
+}
+
+export interface MemoryMatch {
+  source: string;
+  target: string;
+  /** 1 for an exact match, otherwise 1 - edit distance / length of the longer segment. */
+  score: number;
+  exact: boolean;
+  updatedAt: string;
+}
+
+export interface TmxImportResult {
+  imported: number;
+  /** Language pairs written, e.g. "en→zh-cn". */
+  pairs: string[];
+  skipped: number;
+}
+
+/** Whitespace differences never make two segments different. */
+function normalizeSegment(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+function sourceHash(source: string): string {
+  return createHash('sha256').update(source).digest('hex');
+}
+
+function similarity(a: string, b: string): number {
+  const longer = Math.max(a.length, b.length);
+  return longer ? 1 - editDistance(a, b) / longer : 1;
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2);
+    counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/** Dice coefficient over character bigrams; a cheap filter before the edit distance. */
+function bigramOverlap(a: Map<string, number>, b: Map<string, number>, total: number): number {
+  let shared = 0;
+  for (const [bigram, count] of a) shared += Math.min(count, b.get(bigram) ?? 0);
+  return total ? (2 * shared) / total : 1;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  return new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i').exec(tag)?.[1];
+}
+
+/**
+ * Text of a TMX <seg>: inline codes (bpt, ept, ph, it) are replaced by the
+ * native code they carry, e.g. `{name}`, and highlighting is dropped.
+ */
+function segText(seg: string): string {
+  return decodeEntities(
+    seg
+      .replace(/<(bpt|ept|ph|it)\b[^>]*>([\s\S]*?)<\/\1\s*>/g, (_, __, code: string) => decodeEntities(code.replace(/<[^>]*>/g, '')))
+      .replace(/<[^>]*>/g, ''),
+  );
+}
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS translation_units (
+    source_language TEXT NOT NULL,
+    target_language TEXT NOT NULL,
+    source_hash TEXT NOT NULL,
+    source TEXT NOT NULL,
+    source_length INTEGER NOT NULL,
+    target TEXT NOT NULL,
+    note TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (source_language, target_language, source_hash)
+  )`,
+  'CREATE INDEX IF NOT EXISTS translation_units_length ON translation_units (source_language, target_language, source_length)',
+  'CREATE INDEX IF NOT EXISTS translation_units_updated ON translation_units (source_language, target_language, updated_at)',
+];
+
+function toUnit(row: Row): TranslationUnit {
+  return {
+    source: String(row.source),
+    target: String(row.target),
+    sourceLanguage: String(row.source_language),
+    targetLanguage: String(row.target_language),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+    ...(row.note ? { note: String(row.note) } : {}),
+  };
+}
+
+/**
+ * Approved translations, one row per unit keyed by language pair and a
+ * hash of the normalized source segment. Every call reads the table, so
+ * units recorded by another process are seen at once, and each write is a
+ * single upsert rather than a rewrite of the pair.
+ */
+export class TranslationMemory {
+  private ready?: Promise<void>;
+
+  constructor(private connect: () => Client) {}
+
+  private get client(): Client {
+    return this.connect();
+  }
+
+  private async schema(): Promise<void> {
+    await (this.ready ??= this.client.batch(SCHEMA, 'write').then(() => undefined));
+  }
+
+  private async execute(statement: InStatement) {
+    await this.schema();
+    return this.client.execute(statement);
+  }
+
+  async list(sourceLanguage: string, targetLanguage: string): Promise<TranslationUnit[]> {
+    const { rows } = await this.execute({
+      sql: 'SELECT * FROM translation_units WHERE source_language = ? AND target_language = ? ORDER BY updated_at',
+      args: [normalizeLanguage(sourceLanguage), normalizeLanguage(targetLanguage)],
+    });
+    return rows.map(toUnit);
+  }
+
+  /**
+   * Records approved translations. A unit for a source segment already in
+   * the memory replaces the old translation. Units are written in one
+   * transaction, after which the oldest units of a pair beyond the limit
+   * are dropped.
+   */
+  async record(units: Array<Pick<TranslationUnit, 'source' | 'target' | 'sourceLanguage' | 'targetLanguage' | 'note'>>): Promise<number> {
+    const now = new Date().toISOString();
+    const statements: InStatement[] = [];
+    const touched = new Map<string, [string, string]>();
+    let recorded = 0;
+
+    for (const unit of units) {
+      const source = normalizeSegment(unit.source);
+      const target = unit.target.trim();
+      if (!source || !target) continue;
+      const sourceLanguage = normalizeLanguage(unit.sourceLanguage);
+      const targetLanguage = normalizeLanguage(unit.targetLanguage);
+      statements.push({
+        sql: `INSERT INTO translation_units (source_language, target_language, source_hash, source, source_length, target, note, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT (source_language, target_language, source_hash)
+          DO UPDATE SET target = excluded.target, note = excluded.note, updated_at = excluded.updated_at`,
+        args: [sourceLanguage, targetLanguage, sourceHash(source), source, source.length, target, unit.note || null, now, now],
+      });
+      touched.set(`${sourceLanguage}:${targetLanguage}`, [sourceLanguage, targetLanguage]);
+      recorded++;
+    }
+    if (!recorded) return 0;
+
+    for (const [sourceLanguage, targetLanguage] of touched.values()) {
+      statements.push({
+        sql: `DELETE FROM translation_units WHERE source_language = ? AND target_language = ? AND updated_at < (
+          SELECT updated_at FROM translation_units WHERE source_language = ? AND target_language = ?
+          ORDER BY updated_at DESC LIMIT 1 OFFSET ?)`,
+        args: [sourceLanguage, targetLanguage, sourceLanguage, targetLanguage, MAX_UNITS_PER_PAIR - 1],
+      });
+    }
+    await this.schema();
+    await this.client.batch(statements, 'write');
+    return recorded;
+  }
+
+  /** Removes the units for the given source segments and returns how many were removed. */
+  async remove(sourceLanguage: string, targetLanguage: string, sources: string[]): Promise<number> {
+    const hashes = [...new Set(sources.map(source => sourceHash(normalizeSegment(source))))];
+    if (!hashes.length) return 0;
+    const { rowsAffected } = await this.execute({
+      sql: `DELETE FROM translation_units WHERE source_language = ? AND target_language = ? AND source_hash IN (${hashes.map(() => '?').join(', ')})`,
+      args: [normalizeLanguage(sourceLanguage), normalizeLanguage(targetLanguage), ...hashes],
+    });
+    return rowsAffected;
+  }
+
+  /**
+   * Exact and fuzzy matches for a segment, best first. Fuzzy candidates are
+   * pre-filtered by length in the query and by bigram overlap before the
+   * edit distance is computed.
+   */
+  async lookup(
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    { minScore = DEFAULT_MIN_SCORE, limit = 3 }: { minScore?: number; limit?: number } = {},
+  ): Promise<MemoryMatch[]> {
+    const source = normalizeSegment(text);
+    const pair = [normalizeLanguage(sourceLanguage), normalizeLanguage(targetLanguage)];
+    const toMatch = (entry: TranslationUnit, score: number): MemoryMatch => ({
+      source: entry.source,
+      target: entry.target,
+      score: Math.round(score * 1000) / 1000,
+      exact: score === 1,
+      updatedAt: entry.updatedAt,
+    });
+
+    const { rows: [exact] } = await this.execute({
+      sql: 'SELECT * FROM translation_units WHERE source_language = ? AND target_language = ? AND source_hash = ?',
+      args: [...pair, sourceHash(source)],
+    });
+    if (exact || source.length > MAX_FUZZY_CHARS) return exact ? [toMatch(toUnit(exact), 1)] : [];
+
+    // Segments whose length differs by more than 1 - minScore of the longer one cannot score minScore.
+    const { rows } = await this.execute({
+      sql: 'SELECT * FROM translation_units WHERE source_language = ? AND target_language = ? AND source_length BETWEEN ? AND ?',
+      args: [...pair, Math.ceil(source.length * minScore), Math.min(MAX_FUZZY_CHARS, Math.floor(source.length / minScore))],
+    });
+    const sourceBigrams = bigrams(source);
+    const matches: MemoryMatch[] = [];
+    for (const entry of rows.map(toUnit)) {
+      const total = Math.max(0, source.length - 1) + Math.max(0, entry.source.length - 1);
+      if (bigramOverlap(sourceBigrams, bigrams(entry.source), total) < minScore - 0.2) continue;
+      const score = similarity(source, entry.source);
+      if (score >= minScore) matches.push(toMatch(entry, score));
+    }
+
+    return matches.sort((a, b) => b.score - a.score || b.updatedAt.localeCompare(a.updatedAt)).slice(0, limit);
+  }
+
+  /**
+   * Imports a TMX 1.4 document. Each translation unit yields one memory
+   * unit per target variant, with the source variant chosen by the
+   * header's srclang (or `sourceLanguage`, or the first variant).
+   */
+  async importTmx(tmx: string, { sourceLanguage }: { sourceLanguage?: string } = {}): Promise<TmxImportResult> {
+    const header = /<header\b[^>]*>/.exec(tmx)?.[0];
+    if (!header && !/<tmx\b/.test(tmx)) throw new ToolError(ErrorCode.INVALID_INPUT, 'Not a TMX document: no <tmx> element');
+    const headerLanguage = header ? attribute(header, 'srclang') : undefined;
+    const preferred = normalizeLanguage(sourceLanguage ?? (headerLanguage && headerLanguage !== '*all*' ? headerLanguage : '*'));
+
+    const units: Array<Pick<TranslationUnit, 'source' | 'target' | 'sourceLanguage' | 'targetLanguage' | 'note'>> = [];
+    let skipped = 0;
+    for (const [tu] of tmx.matchAll(/<tu\b[^>]*>[\s\S]*?<\/tu\s*>/g)) {
+      const variants = [...tu.matchAll(/<tuv\b([^>]*)>[\s\S]*?<seg\b[^>]*>([\s\S]*?)<\/seg\s*>[\s\S]*?<\/tuv\s*>/g)]
+        .map(([, attributes, seg]) => ({ language: attribute(attributes, 'xml:lang') ?? attribute(attributes, 'lang'), text: segText(seg) }))
+        .filter((variant): variant is { language: string; text: string } => Boolean(variant.language && variant.text.trim()));
+      const tuLanguage = attribute(/<tu\b[^>]*>/.exec(tu)![0], 'srclang');
+      const sourceTag = normalizeLanguage(tuLanguage ?? preferred);
+      const source = variants.find(variant => normalizeLanguage(variant.language) === sourceTag) ?? (sourceTag === '*' ? variants[0] : undefined);
+      const targets = variants.filter(variant => variant !== source);
+      if (!source || !targets.length) {
+        skipped++;
+        continue;
+      }
+      const note = /<note\b[^>]*>([\s\S]*?)<\/note\s*>/.exec(tu)?.[1];
+      for (const target of targets) {
+        units.push({
+          source: source.text,
+          target: target.text,
+          sourceLanguage: source.language,
+          targetLanguage: target.language,
+          ...(note ? { note: decodeEntities(note) } : {}),
+        });
+      }
+    }
+
+    return {
+      imported: await this.record(units),
+      pairs: [...new Set(units.map(unit => `${normalizeLanguage(unit.sourceLanguage)}→${normalizeLanguage(unit.targetLanguage)}`))],
+      skipped,
+    };
+  }
+
+  /** Exports one language pair, or every pair, as TMX 1.4. */
+  async exportTmx({ sourceLanguage, targetLanguage }: { sourceLanguage?: string; targetLanguage?: string } = {}): Promise<{ tmx: string; units: number }> {
+    const { rows } = await this.execute({
+      sql: `SELECT * FROM translation_units WHERE (? IS NULL OR source_language = ?) AND (? IS NULL OR target_language = ?)
+        ORDER BY source_language, target_language, updated_at`,
+      args: [sourceLanguage, targetLanguage]
+        .map(language => (language ? normalizeLanguage(language) : null))
+        .flatMap(language => [language, language]),
+    });
+    const units = rows.map(toUnit);
+    const sourceLanguages = new Set(units.map(unit => unit.sourceLanguage));
+    const srclang = sourceLanguages.size === 1 ? [...sourceLanguages][0] : '*all*';
+    const date = (iso: string) => iso.replace(/[-:]/g, '').replace(/\.\d+/, '');
+
+    const body = units.map(unit =>
+      [
+        `    <tu creationdate="${date(unit.createdAt)}" changedate="${date(unit.updatedAt)}">`,
+        ...(unit.note ? [`      <note>${escapeXml(unit.note)}</note>`] : []),
+        `      <tuv xml:lang="${unit.sourceLanguage}"><seg>${escapeXml(unit.source)}</seg></tuv>`,
+        `      <tuv xml:lang="${unit.targetLanguage}"><seg>${escapeXml(unit.target)}</seg></tuv>`,
+        '    </tu>',
+      ].join('\n'),
+    );
+
+    const tmx = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<tmx version="1.4">',
+      `  <header creationtool="faithcal-mastra-app" creationtoolversion="1.0" segtype="sentence" o-tmf="faithcal" adminlang="en" srclang="${srclang}" datatype="plaintext"/>`,
+      '  <body>',
+      ...body,
+      '  </body>',
+      '</tmx>',
+      '',
+    ].join('\n');
+    return { tmx, units: units.length };
+  }
+}
+
+export const translationMemory = new TranslationMemory(getDatabase);
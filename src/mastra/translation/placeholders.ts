@@ -0,0 +1,247 @@
+import { decodeEntities } from '../web/entities';
+
+/**
+ * A text prepared for the model: everything that must survive translation
+ * verbatim (interpolation variables, ICU syntax, markup, code, URLs) is
+ * replaced by numbered tokens like ⟦0⟧.
+ */
+export interface ProtectedText {
+  text: string;
+  tokens: ProtectedToken[];
+}
+
+export interface ProtectedToken {
+  raw: string;
+  /** Markup from the document itself, restored without escaping. */
+  markup: boolean;
+  /** A placeholder the translation must keep, as opposed to structure such as ICU plural branches. */
+  placeholder: boolean;
+}
+
+export interface RestoreResult {
+  text: string;
+  /** Raw values of tokens the translation dropped. */
+  missing: string[];
+  /** Raw values of tokens the translation repeated. */
+  duplicated: string[];
+  /** Token numbers the translation invented. */
+  unknown: string[];
+}
+
+export interface ProtectOptions {
+  /** Keep tags and decode entities, as for HTML and XLIFF segments. */
+  markup?: boolean;
+  /** Format-specific spans to protect in addition to the common ones. */
+  patterns?: RegExp[];
+}
+
+const TOKEN = /⟦\s*(\d+)\s*⟧/g;
+
+/** Spans in markup segments that are kept whole: code-like elements, comments and tags. */
+const MARKUP_PATTERN = /<(code|kbd|samp|var)\b[^>]*>[\s\S]*?<\/\1\s*>|<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\/?[A-Za-z][\w:.-]*(?:\s[^<>]*)?\/?>/g;
+
+/**
+ * Interpolation syntaxes of common i18n libraries: {{mustache}}, ${template},
+ * printf and Python formats, i18next nesting, numbered and named tags
+ * (react-i18next, vue-i18n), entities and URLs. Brace placeholders and ICU
+ * messages are handled by `Protector.protect`.
+ */
+const COMMON_PATTERNS = [
+  /\{\{[^{}]*\}\}/y,
+  /\$\{[^{}]*\}/y,
+  /%\([\w.]+\)[-+0#]*\d*(?:\.\d+)?[sdifr]/y,
+  /%(?:\d+\$)?[-+0#]*(?:\d+|\*)?(?:\.\d+)?(?:hh|h|ll|l|L|z|j|t)?[diouxXeEfFgGaAcsp@%]/y,
+  /\$t\([^()]*\)/y,
+  /<\/?[A-Za-z0-9][\w:.-]*(?:\s[^<>]*)?\/?>/y,
+  /&(?:#\d+|#x[0-9a-fA-F]+|[A-Za-z]\w*);/y,
+  /https?:\/\/[^\s<>"'`)\]]+/y,
+];
+
+const ICU_COMPLEX = /^\s*([\w.]+)\s*,\s*(plural|select|selectordinal)\s*,/;
+const ICU_SIMPLE = /^\s*[\w.]+\s*(?:,[^{}]*)?$/;
+
+/** Index of the brace closing the one at `start`, or -1. */
+function matchingBrace(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+class Protector {
+  readonly tokens: ProtectedToken[] = [];
+  private patterns: RegExp[];
+
+  constructor(extraPatterns: RegExp[] = []) {
+    this.patterns = [...extraPatterns.map(pattern => new RegExp(pattern.source, `${pattern.flags.replace(/[gy]/g, '')}y`)), ...COMMON_PATTERNS];
+  }
+
+  token(raw: string, markup = false, placeholder = true): string {
+    this.tokens.push({ raw, markup, placeholder });
+    return `⟦${this.tokens.length - 1}⟧`;
+  }
+
+  /**
+   * Protects placeholders in plain text. Inside ICU plural and select
+   * messages only the syntax is protected; the branch texts stay
+   * translatable, with `#` protected in plural branches.
+   */
+  protect(text: string, inPlural = false): string {
+    let out = '';
+    let plain = '';
+    const flush = () => {
+      out += plain;
+      plain = '';
+    };
+
+    for (let i = 0; i < text.length; ) {
+      if (text[i] === '{' && text[i + 1] !== '{') {
+        const end = matchingBrace(text, i);
+        const inner = end > 0 ? text.slice(i + 1, end) : '';
+        const complex = ICU_COMPLEX.exec(inner);
+        if (complex) {
+          flush();
+          out += this.protectIcu(text.slice(i, end + 1), complex[2] !== 'select');
+          i = end + 1;
+          continue;
+        }
+        if (end > 0 && ICU_SIMPLE.test(inner)) {
+          flush();
+          out += this.token(text.slice(i, end + 1));
+          i = end + 1;
+          continue;
+        }
+      }
+
+      if (inPlural && text[i] === '#') {
+        flush();
+        out += this.token('#');
+        i++;
+        continue;
+      }
+
+      const match = this.matchAt(text, i);
+      if (match) {
+        flush();
+        out += this.token(match);
+        i += match.length;
+        continue;
+      }
+
+      plain += text[i++];
+    }
+
+    flush();
+    return out;
+  }
+
+  private matchAt(text: string, index: number): string | undefined {
+    for (const pattern of this.patterns) {
+      pattern.lastIndex = index;
+      const match = pattern.exec(text);
+      if (match?.[0]) return match[0];
+    }
+    return undefined;
+  }
+
+  /**
+   * `{count, plural, one {# item} other {# items}}` becomes
+   * `⟦0⟧⟦1⟧ item⟦2⟧⟦3⟧ items⟦4⟧`, where ⟦0⟧ is `{count, plural, one {`.
+   */
+  private protectIcu(message: string, plural: boolean): string {
+    const head = ICU_COMPLEX.exec(message.slice(1))!;
+    let i = 1 + head[0].length;
+    let structure = message.slice(0, i);
+    let out = '';
+
+    while (i < message.length - 1) {
+      const open = message.indexOf('{', i);
+      if (open < 0) break;
+      const close = matchingBrace(message, open);
+      if (close < 0) break;
+      structure += message.slice(i, open + 1);
+      out += this.token(structure, false, false);
+      out += this.protect(message.slice(open + 1, close), plural);
+      structure = '}';
+      i = close + 1;
+    }
+
+    structure += message.slice(i);
+    return out + this.token(structure, false, false);
+  }
+}
+
+/**
+ * Replaces placeholders, and for markup segments tags and code elements,
+ * with tokens. Text in markup segments is entity-decoded so the model sees
+ * plain text; `restorePlaceholders` escapes it again.
+ */
+export function protectPlaceholders(text: string, { markup = false, patterns }: ProtectOptions = {}): ProtectedText {
+  const protector = new Protector(patterns);
+  if (!markup) return { text: protector.protect(text), tokens: protector.tokens };
+
+  let out = '';
+  let last = 0;
+  for (const match of text.matchAll(MARKUP_PATTERN)) {
+    out += protector.protect(decodeEntities(text.slice(last, match.index)));
+    out += protector.token(match[0], true);
+    last = match.index! + match[0].length;
+  }
+  out += protector.protect(decodeEntities(text.slice(last)));
+  return { text: out, tokens: protector.tokens };
+}
+
+export function escapeMarkup(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Puts the protected values back into a translation and reports tokens
+ * that were dropped, repeated or invented. With `markup`, translated text
+ * is escaped while document markup is restored as is.
+ */
+export function restorePlaceholders(translation: string, { tokens }: ProtectedText, { markup = false } = {}): RestoreResult {
+  const seen = new Map<number, number>();
+  const unknown: string[] = [];
+  for (const match of translation.matchAll(TOKEN)) {
+    const id = Number(match[1]);
+    if (id >= tokens.length) unknown.push(match[0]);
+    else seen.set(id, (seen.get(id) ?? 0) + 1);
+  }
+
+  const escape = (text: string) => (markup ? escapeMarkup(text) : text);
+  let text = '';
+  let last = 0;
+  for (const match of translation.matchAll(TOKEN)) {
+    text += escape(translation.slice(last, match.index));
+    const token = tokens[Number(match[1])];
+    if (token) text += token.markup ? token.raw : escape(token.raw);
+    last = match.index! + match[0].length;
+  }
+  text += escape(translation.slice(last));
+
+  return {
+    text,
+    missing: tokens.filter((_, id) => !seen.has(id)).map(token => token.raw),
+    duplicated: tokens.filter((token, id) => (seen.get(id) ?? 0) > 1 && !token.placeholder).map(token => token.raw),
+    unknown,
+  };
+}
+
+/**
+ * The placeholders of a text as a sorted list, for comparing a source
+ * segment with its translation.
+ */
+export function placeholderSignature(text: string, options: ProtectOptions = {}): string[] {
+  return protectPlaceholders(text, options)
+    .tokens.filter(token => token.placeholder)
+    .map(token => token.raw)
+    .sort();
+}
+
+/** True when a protected text has something left to translate. */
+export function hasTranslatableText(protectedText: string): boolean {
+  return /\p{L}/u.test(protectedText.replace(TOKEN, ''));
+}
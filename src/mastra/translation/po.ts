@@ -0,0 +1,134 @@
+import type { ParsedDocument, Segment } from './documents';
+
+interface PoEntry {
+  /** Comments, msgctxt, msgid and msgid_plural lines, kept as written. */
+  head: string[];
+  /** Original msgstr lines, kept when the entry is not translated. */
+  tail: string[];
+  line: number;
+  context?: string;
+  msgid?: string;
+  msgidPlural?: string;
+  msgstr: string[];
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '"': '"', '\\': '\\' };
+
+function unescapePo(text: string): string {
+  return text.replace(/\\(.)/g, (match, char: string) => ESCAPES[char] ?? match);
+}
+
+function escapePo(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t').replace(/\r/g, '\\r');
+}
+
+/** A keyword and its string, split after each newline when it has several lines. */
+function formatString(keyword: string, value: string): string[] {
+  const lines = value.split(/(?<=\n)/);
+  if (lines.length <= 1 || (lines.length === 2 && !lines[1])) return [`${keyword} "${escapePo(value)}"`];
+  return [`${keyword} ""`, ...lines.filter(Boolean).map(line => `"${escapePo(line)}"`)];
+}
+
+function parseEntries(lines: string[]): Array<PoEntry | string[]> {
+  const blocks: Array<PoEntry | string[]> = [];
+  let entry: PoEntry | undefined;
+  let field: { name: string; index: number } | undefined;
+
+  const finish = () => {
+    if (entry) blocks.push(entry.msgid === undefined ? [...entry.head, ...entry.tail] : entry);
+    entry = undefined;
+    field = undefined;
+  };
+
+  lines.forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      finish();
+      blocks.push([line]);
+      return;
+    }
+    const keyword = /^(msgctxt|msgid_plural|msgid|msgstr)(?:\[(\d+)\])?\s+"(.*)"\s*$/.exec(trimmed);
+    const continuation = /^"(.*)"\s*$/.exec(trimmed);
+
+    // A comment or new msgctxt/msgid after msgstr starts the next entry even without a blank line.
+    if (field?.name === 'msgstr' && (trimmed.startsWith('#') || (keyword && keyword[1] !== 'msgstr'))) finish();
+    entry ??= { head: [], tail: [], line: index + 1, msgstr: [] };
+
+    // Obsolete entries and comments are kept as written.
+    if (trimmed.startsWith('#')) {
+      entry.head.push(line);
+      return;
+    }
+
+    if (keyword) field = { name: keyword[1], index: Number(keyword[2] ?? 0) };
+    const value = unescapePo((keyword ? keyword[3] : continuation?.[1]) ?? '');
+
+    if (!field) {
+      entry.head.push(line);
+      return;
+    }
+    if (field.name === 'msgstr') {
+      entry.tail.push(line);
+      entry.msgstr[field.index] = (keyword ? '' : entry.msgstr[field.index] ?? '') + value;
+      return;
+    }
+    entry.head.push(line);
+    if (field.name === 'msgctxt') entry.context = (keyword ? '' : entry.context ?? '') + value;
+    if (field.name === 'msgid') entry.msgid = (keyword ? '' : entry.msgid ?? '') + value;
+    if (field.name === 'msgid_plural') entry.msgidPlural = (keyword ? '' : entry.msgidPlural ?? '') + value;
+  });
+  finish();
+
+  return blocks;
+}
+
+/**
+ * gettext PO files: msgid and msgid_plural are segments, comments, flags
+ * and context are kept, and msgstr lines are rewritten. Entries that
+ * already have a translation are left alone unless `overwrite` is set.
+ * Plural entries get one msgstr per `nplurals` from the header.
+ */
+export function parsePo(content: string, { overwrite = false } = {}): ParsedDocument {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const blocks = parseEntries(content.split(/\r?\n/));
+  const entries = blocks.filter((block): block is PoEntry => !Array.isArray(block));
+  const header = entries.find(entry => entry.msgid === '' && entry.context === undefined);
+  const nplurals = Number(/nplurals\s*=\s*(\d+)/.exec(header?.msgstr[0] ?? '')?.[1]) || 2;
+
+  const segments: Segment[] = [];
+  const translated = new Map<PoEntry, number>();
+  for (const entry of entries) {
+    if (entry === header || !entry.msgid) continue;
+    if (!overwrite && entry.msgstr.some(Boolean)) continue;
+    const location = `line ${entry.line}${entry.context ? ` (${entry.context})` : ''}`;
+    translated.set(entry, segments.length);
+    segments.push({ text: entry.msgid, location });
+    if (entry.msgidPlural !== undefined) segments.push({ text: entry.msgidPlural, location: `${location} plural` });
+  }
+
+  return {
+    segments,
+    rebuild: (translations, targetLanguage) =>
+      blocks
+        .flatMap(block => {
+          if (Array.isArray(block)) return block;
+          if (block === header) {
+            const language = `Language: ${targetLanguage.replace(/-/g, '_')}\n`;
+            const msgstr = /^Language:.*\n?/m.test(block.msgstr[0] ?? '')
+              ? block.msgstr[0].replace(/^Language:.*\n?/m, language)
+              : (block.msgstr[0] ?? '') + language;
+            return [...block.head, ...formatString('msgstr', msgstr)];
+          }
+
+          const first = translated.get(block);
+          if (first === undefined) return [...block.head, ...block.tail];
+          if (block.msgidPlural === undefined) return [...block.head, ...formatString('msgstr', translations[first])];
+
+          const forms = Array.from({ length: nplurals }, (_, index) =>
+            formatString(`msgstr[${index}]`, translations[first + (index === 0 && nplurals > 1 ? 0 : 1)]),
+          );
+          return [...block.head, ...forms.flat()];
+        })
+        .join(eol),
+  };
+}
@@ -0,0 +1,201 @@
+import { openai } from '@ai-sdk/openai';
+import { Agent } from '@mastra/core/agent';
+import { embedTexts } from '../rag/embeddings';
+import { cosineSimilarity } from '../rag/vectorStore';
+import { glossary } from './glossary';
+import { placeholderSignature } from './placeholders';
+
+export type ProblemKind = 'meaning' | 'length' | 'number' | 'url' | 'entity' | 'placeholder' | 'glossary';
+export type Severity = 'high' | 'medium' | 'low';
+
+export interface QualityProblem {
+  kind: ProblemKind;
+  severity: Severity;
+  message: string;
+  /** The source value the translation should contain, when there is one. */
+  expected?: string;
+}
+
+export interface QualityReport {
+  /** 0-1: semantic similarity of the back-translation, minus a penalty per problem. */
+  confidence: number;
+  verdict: 'pass' | 'review' | 'fail';
+  backTranslation: string;
+  /** Similarity of the source and the back-translation, 0-1. */
+  similarity: number;
+  /** 'lexical' when embeddings were unavailable and word overlap was used instead. */
+  similarityMethod: 'embedding' | 'lexical';
+  /** Translation length over source length, counting CJK characters as several Latin ones. */
+  lengthRatio: number;
+  problems: QualityProblem[];
+}
+
+export interface QualityInput {
+  sourceText: string;
+  translation: string;
+  sourceLanguage?: string;
+  targetLanguage: string;
+}
+
+const PENALTIES: Record<Severity, number> = { high: 0.3, medium: 0.1, low: 0.05 };
+/** Cosine similarities of embeddings are mapped linearly from this range onto 0-1. */
+const COSINE_FLOOR = 0.7;
+const COSINE_CEILING = 0.95;
+/** One CJK character carries about as much as this many Latin characters. */
+const CJK_WEIGHT = 2.5;
+const LENGTH_RATIO_RANGE = [0.5, 2] as const;
+
+const backTranslator = new Agent({
+  name: 'Back Translator',
+  instructions: `
+    You translate text back into its original language to check a translation.
+    Translate faithfully and fairly literally. Do not correct, improve or complete the text, and do not add notes.
+  `,
+  model: openai('gpt-4o-mini'),
+});
+
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+/** URLs and email addresses; CJK and full-width punctuation ends a URL, since those texts put no space after it. */
+const URL_PATTERN = /https?:\/\/[^\s<>"'`)\]\u3000-\u303f\uff00-\uffef]+[^\s<>"'`)\].,;:!?\u3000-\u303f\uff00-\uffef]|[\w.+-]+@[\w-]+\.[\w.-]*\w/g;
+const NUMBER_PATTERN = /\d+(?:[.,'\u00a0\u2009\u202f]\d+)*/g;
+
+function weightedLength(text: string): number {
+  let length = 0;
+  for (const char of text.replace(/\s+/g, ' ').trim()) length += CJK.test(char) ? CJK_WEIGHT : 1;
+  return length;
+}
+
+/** Full-width digits become ASCII and separators are dropped, so 1,234.5 and 1 234,5 compare equal. */
+function numbers(text: string): string[] {
+  const ascii = text.replace(/[０-９]/g, digit => String.fromCharCode(digit.charCodeAt(0) - 0xfee0));
+  return (ascii.match(NUMBER_PATTERN) ?? []).map(number => number.replace(/\D/g, ''));
+}
+
+function missingFrom(expected: string[], actual: string[]): string[] {
+  const remaining = [...actual];
+  return expected.filter(value => {
+    const index = remaining.indexOf(value);
+    if (index >= 0) remaining.splice(index, 1);
+    return index < 0;
+  });
+}
+
+/**
+ * Likely names in the source: in Latin-script text, capitalized word runs
+ * that do not start a sentence, acronyms and camel-case words; in other
+ * scripts, embedded Latin-script words.
+ */
+function namedEntities(text: string): string[] {
+  const latinShare = (text.match(/\p{Script=Latin}/gu)?.length ?? 0) / Math.max(1, text.match(/\p{L}/gu)?.length ?? 0);
+  const found = new Set<string>();
+
+  if (latinShare < 0.5) {
+    for (const [word] of text.matchAll(/[A-Za-z][\w.+#&-]*(?:\s+[A-Z][\w.+#&-]*)*/g)) found.add(word.replace(/[.-]+$/, ''));
+    return [...found];
+  }
+
+  for (const match of text.matchAll(/\b(?:\p{Lu}[\p{L}\d&'-]*|\p{Ll}+\p{Lu}[\p{L}\d]*)(?:\s+(?:\p{Lu}[\p{L}\d&'-]*|of|de|la|von|van))*\b/gu)) {
+    let entity = match[0].replace(/\s+(?:of|de|la|von|van)$/, '');
+    const before = text.slice(0, match.index).trimEnd();
+    const sentenceStart = !before || /[.!?:;\n"“(]$/.test(before);
+    // A capital at the start of a sentence says nothing, so the first word only counts when it is an acronym or camel case.
+    if (sentenceStart && !/^(?:\p{Lu}{2,}|\S*\p{Ll}\p{Lu})/u.test(entity)) entity = entity.replace(/^\S+\s*/, '').replace(/^(?:of|de|la|von|van)\s+/, '');
+    if (entity.length > 1) found.add(entity);
+  }
+  return [...found];
+}
+
+function lexicalSimilarity(a: string, b: string): number {
+  const words = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const left = words(a);
+  const right = words(b);
+  const shared = left.length + right.length - missingFrom(left, right).length - missingFrom(right, left).length;
+  return left.length + right.length ? shared / (left.length + right.length) : 1;
+}
+
+async function backTranslate({ translation, sourceLanguage, sourceText }: QualityInput): Promise<string> {
+  const into = sourceLanguage ?? `the language of this sample: "${sourceText.slice(0, 200)}"`;
+  const { text } = await backTranslator.generate(`Translate the text below into ${into}. Reply with only the translation.\n\n${translation}`);
+  return text.trim();
+}
+
+async function semanticSimilarity(source: string, backTranslation: string): Promise<{ similarity: number; method: 'embedding' | 'lexical' }> {
+  try {
+    const [a, b] = await embedTexts([source, backTranslation]);
+    const cosine = cosineSimilarity(a, b);
+    return { similarity: Math.min(1, Math.max(0, (cosine - COSINE_FLOOR) / (COSINE_CEILING - COSINE_FLOOR))), method: 'embedding' };
+  } catch {
+    return { similarity: lexicalSimilarity(source, backTranslation), method: 'lexical' };
+  }
+}
+
+/**
+ * Checks a translation by back-translating it into the source language
+ * and comparing meaning, then checking length, numbers, URLs and email
+ * addresses, names, placeholders and glossary terms. Each problem lowers
+ * the confidence by its severity.
+ */
+export async function assessTranslation(input: QualityInput): Promise<QualityReport> {
+  const { sourceText, translation } = input;
+  const problems: QualityProblem[] = [];
+
+  const backTranslation = await backTranslate(input);
+  const { similarity, method } = await semanticSimilarity(sourceText, backTranslation);
+  if (similarity < 0.6) {
+    problems.push({
+      kind: 'meaning',
+      severity: similarity < 0.3 ? 'high' : 'medium',
+      message: `The back-translation differs in meaning from the source: "${backTranslation.slice(0, 300)}"`,
+    });
+  }
+
+  const lengthRatio = weightedLength(translation) / Math.max(1, weightedLength(sourceText));
+  if (lengthRatio < LENGTH_RATIO_RANGE[0] || lengthRatio > LENGTH_RATIO_RANGE[1]) {
+    problems.push({
+      kind: 'length',
+      severity: lengthRatio < 0.3 || lengthRatio > 3 ? 'high' : 'low',
+      message: `The translation is ${lengthRatio < 1 ? 'much shorter' : 'much longer'} than the source (ratio ${lengthRatio.toFixed(2)}); content may be missing or added`,
+    });
+  }
+
+  for (const number of missingFrom(numbers(sourceText), numbers(translation))) {
+    problems.push({ kind: 'number', severity: 'medium', message: `The number ${number} does not appear in the translation; check it was not changed or dropped`, expected: number });
+  }
+
+  for (const url of missingFrom(sourceText.match(URL_PATTERN) ?? [], translation.match(URL_PATTERN) ?? [])) {
+    problems.push({ kind: 'url', severity: 'high', message: `${url} is missing or altered in the translation`, expected: url });
+  }
+
+  const lowerTranslation = translation.toLowerCase();
+  const lowerBack = backTranslation.toLowerCase();
+  for (const entity of namedEntities(sourceText)) {
+    const name = entity.toLowerCase();
+    if (lowerTranslation.includes(name) || lowerBack.includes(name)) continue;
+    problems.push({ kind: 'entity', severity: 'medium', message: `The name "${entity}" may be lost or mistranslated`, expected: entity });
+  }
+
+  const sourcePlaceholders = placeholderSignature(sourceText).filter(raw => !/^https?:|^&/.test(raw));
+  const translationPlaceholders = placeholderSignature(translation).filter(raw => !/^https?:|^&/.test(raw));
+  for (const placeholder of missingFrom(sourcePlaceholders, translationPlaceholders)) {
+    problems.push({ kind: 'placeholder', severity: 'high', message: `The placeholder ${placeholder} is missing from the translation`, expected: placeholder });
+  }
+
+  const violations = await glossary.check(sourceText, translation, input.sourceLanguage ?? '*', input.targetLanguage).catch(() => []);
+  for (const violation of violations) {
+    problems.push({ kind: 'glossary', severity: 'medium', message: violation.message, expected: violation.expected });
+  }
+
+  const penalty = problems.filter(problem => problem.kind !== 'meaning').reduce((sum, problem) => sum + PENALTIES[problem.severity], 0);
+  const confidence = Math.round(Math.max(0, similarity - penalty) * 100) / 100;
+  const verdict = confidence >= 0.8 && !problems.some(problem => problem.severity === 'high') ? 'pass' : confidence >= 0.5 ? 'review' : 'fail';
+
+  return {
+    confidence,
+    verdict,
+    backTranslation,
+    similarity: Math.round(similarity * 100) / 100,
+    similarityMethod: method,
+    lengthRatio: Math.round(lengthRatio * 100) / 100,
+    problems,
+  };
+}
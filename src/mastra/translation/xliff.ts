@@ -0,0 +1,80 @@
+import { ErrorCode, ToolError } from '../errors';
+import type { ParsedDocument, Segment } from './documents';
+
+interface XliffUnit {
+  start: number;
+  end: number;
+  raw: string;
+  id?: string;
+  source: string;
+  /** Existing target content, undefined when the unit has no target element. */
+  target?: string;
+}
+
+const UNIT = /<(trans-unit|segment)\b[^>]*>[\s\S]*?<\/\1\s*>/g;
+const SOURCE = /(^|\n)?([ \t]*)<source\b[^>]*>([\s\S]*?)<\/source\s*>/;
+const TARGET = /<target\b[^>]*?(?:\/>|>([\s\S]*?)<\/target\s*>)/;
+
+function setAttribute(tag: string, name: string, value: string): string {
+  const existing = new RegExp(`(\\s${name}\\s*=\\s*)(["'])[^"']*\\2`);
+  if (existing.test(tag)) return tag.replace(existing, `$1$2${value}$2`);
+  return tag.replace(/\s*(\/?)>$/, ` ${name}="${value}"$1>`);
+}
+
+/**
+ * XLIFF 1.2 trans-units and 2.x segments: each source is a segment whose
+ * inline elements (g, x, ph, pc, mrk...) are kept as markup. Targets are
+ * written next to their source, and the target language is set on the
+ * file elements (1.2) or the root element (2.x). Units that already have a target are
+ * left alone unless `overwrite` is set.
+ */
+export function parseXliff(content: string, { overwrite = false } = {}): ParsedDocument {
+  if (!/<xliff\b/.test(content)) throw new ToolError(ErrorCode.INVALID_INPUT, 'Not an XLIFF document: no <xliff> element');
+  const version2 = /<xliff\b[^>]*\sversion\s*=\s*["']2/.test(content);
+
+  const units: XliffUnit[] = [];
+  for (const match of content.matchAll(UNIT)) {
+    const source = SOURCE.exec(match[0]);
+    if (!source) continue;
+    const target = TARGET.exec(match[0]);
+    units.push({
+      start: match.index!,
+      end: match.index! + match[0].length,
+      raw: match[0],
+      id: /\sid\s*=\s*["']([^"']*)["']/.exec(match[0])?.[1],
+      source: source[3],
+      target: target ? (target[1] ?? '') : undefined,
+    });
+  }
+
+  const pending = units.filter(unit => overwrite || !unit.target?.trim());
+  const segments: Segment[] = pending.map(unit => ({ text: unit.source, location: unit.id ? `unit ${unit.id}` : 'unit', markup: true }));
+
+  return {
+    segments,
+    rebuild: (translations, targetLanguage) => {
+      const replacements = new Map(pending.map((unit, index) => [unit, translations[index]]));
+      let out = '';
+      let last = 0;
+
+      for (const unit of units) {
+        const translation = replacements.get(unit);
+        if (translation === undefined) continue;
+        let raw: string;
+        if (unit.target !== undefined) {
+          raw = unit.raw.replace(TARGET, match => `${match.replace(/\s*\/>$|>[\s\S]*$/, '')}>${translation}</target>`);
+        } else {
+          const [sourceElement, newline, indent] = SOURCE.exec(unit.raw)!;
+          raw = unit.raw.replace(sourceElement, () => `${sourceElement}${newline ? `\n${indent}` : ''}<target>${translation}</target>`);
+        }
+        out += content.slice(last, unit.start) + raw;
+        last = unit.end;
+      }
+      out += content.slice(last);
+
+      return version2
+        ? out.replace(/<xliff\b[^>]*>/, tag => setAttribute(tag, 'trgLang', targetLanguage))
+        : out.replace(/<file\b[^>]*>/g, tag => setAttribute(tag, 'target-language', targetLanguage));
+    },
+  };
+}
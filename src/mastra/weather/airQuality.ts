@@ -0,0 +1,101 @@
+import { fetchJson } from '../http';
+
+interface AirQualityResponse {
+  current: {
+    time: string;
+    us_aqi: number | null;
+    european_aqi: number | null;
+    pm2_5: number | null;
+    pm10: number | null;
+    ozone: number | null;
+    nitrogen_dioxide: number | null;
+    alder_pollen: number | null;
+    birch_pollen: number | null;
+    grass_pollen: number | null;
+    mugwort_pollen: number | null;
+    olive_pollen: number | null;
+    ragweed_pollen: number | null;
+  };
+}
+
+export type PollenLevel = 'none' | 'low' | 'moderate' | 'high' | 'very high';
+
+export interface AirQuality {
+  time: string;
+  usAqi: number | null;
+  europeanAqi: number | null;
+  category: string | null;
+  pm2_5: number | null;
+  pm10: number | null;
+  ozone: number | null;
+  nitrogenDioxide: number | null;
+  pollen: Record<'alder' | 'birch' | 'grass' | 'mugwort' | 'olive' | 'ragweed', number | null>;
+  pollenLevel: PollenLevel | null;
+}
+
+const POLLEN_TYPES = ['alder', 'birch', 'grass', 'mugwort', 'olive', 'ragweed'] as const;
+
+/**
+ * US EPA AQI category names.
+ */
+export function getAqiCategory(aqi: number): string {
+  if (aqi <= 50) return 'Good';
+  if (aqi <= 100) return 'Moderate';
+  if (aqi <= 150) return 'Unhealthy for sensitive groups';
+  if (aqi <= 200) return 'Unhealthy';
+  if (aqi <= 300) return 'Very unhealthy';
+  return 'Hazardous';
+}
+
+/**
+ * Buckets the highest pollen concentration (grains/m³). Open-Meteo only
+ * provides pollen for Europe; elsewhere every value is null.
+ */
+function getPollenLevel(pollen: AirQuality['pollen']): PollenLevel | null {
+  const values = Object.values(pollen).filter((value): value is number => value !== null);
+  if (values.length === 0) return null;
+  const max = Math.max(...values);
+  if (max === 0) return 'none';
+  if (max < 10) return 'low';
+  if (max < 50) return 'moderate';
+  if (max < 200) return 'high';
+  return 'very high';
+}
+
+export async function getAirQuality(latitude: number, longitude: number, timezone: string): Promise<AirQuality> {
+  const params = new URLSearchParams({
+    latitude: String(latitude),
+    longitude: String(longitude),
+    current: [
+      'us_aqi',
+      'european_aqi',
+      'pm2_5',
+      'pm10',
+      'ozone',
+      'nitrogen_dioxide',
+      ...POLLEN_TYPES.map(type => `${type}_pollen`),
+    ].join(','),
+    timezone,
+  });
+
+  const { current } = await fetchJson<AirQualityResponse>(`https://air-quality-api.open-meteo.com/v1/air-quality?${params}`, {
+    service: 'Open-Meteo air quality',
+  });
+
+  const pollen = Object.fromEntries(
+    POLLEN_TYPES.map(type => [type, current[`${type}_pollen`] ?? null]),
+  ) as AirQuality['pollen'];
+
+  return {
+    time: current.time,
+    usAqi: current.us_aqi,
+    europeanAqi: current.european_aqi,
+    category: current.us_aqi !== null ? getAqiCategory(current.us_aqi) : null,
+    pm2_5: current.pm2_5,
+    pm10: current.pm10,
+    ozone: current.ozone,
+    nitrogenDioxide: current.nitrogen_dioxide,
+    pollen,
+    pollenLevel: getPollenLevel(pollen),
+  };
+}
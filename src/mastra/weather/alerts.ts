@@ -0,0 +1,101 @@
+import { getAqiCategory } from './airQuality';
+import { UNIT_LABELS, toCelsius, toKmh, toMillimeters, type Units } from './units';
+
+export type AlertSeverity = 'minor' | 'moderate' | 'severe' | 'extreme';
+
+export type AlertType = 'heat' | 'freeze' | 'wind' | 'thunderstorm' | 'heavy-precipitation' | 'uv' | 'air-quality';
+
+export interface WeatherAlert {
+  type: AlertType;
+  severity: AlertSeverity;
+  /** ISO date of the forecast day, or `now` for current conditions. */
+  date: string;
+  message: string;
+}
+
+export interface AlertInput {
+  units: Units;
+  current: {
+    feelsLike: number;
+    windGust: number;
+    weatherCode: number;
+  };
+  daily: Array<{
+    date: string;
+    weatherCode: number;
+    temperatureMin: number;
+    feelsLikeMax: number;
+    feelsLikeMin: number;
+    windGustMax: number;
+    precipitation: number;
+    uvIndexMax: number | null;
+  }>;
+  usAqi?: number | null;
+}
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { minor: 0, moderate: 1, severe: 2, extreme: 3 };
+
+/**
+ * Returns the severity of the highest threshold reached, thresholds being
+ * listed in ascending order for minor, moderate, severe and extreme.
+ */
+function grade(value: number, thresholds: [number, number, number, number]): AlertSeverity | null {
+  const levels: AlertSeverity[] = ['minor', 'moderate', 'severe', 'extreme'];
+  for (let i = thresholds.length - 1; i >= 0; i--) {
+    if (value >= thresholds[i]) return levels[i];
+  }
+  return null;
+}
+
+const round = (value: number) => Math.round(value);
+
+/**
+ * Derives alerts from current conditions and the daily forecast. All
+ * thresholds are in metric units; imperial inputs are converted for the
+ * comparison, while messages quote values in the caller's units.
+ */
+export function deriveAlerts({ units, current, daily, usAqi }: AlertInput): WeatherAlert[] {
+  const alerts: WeatherAlert[] = [];
+  const add = (type: AlertType, severity: AlertSeverity | null, date: string, message: string) => {
+    if (severity) alerts.push({ type, severity, date, message });
+  };
+  const labels = UNIT_LABELS[units];
+  // Inches need a decimal to be meaningful.
+  const amount = (value: number) => (units === 'imperial' ? Math.round(value * 10) / 10 : round(value));
+
+  const feelsLikeNow = toCelsius(current.feelsLike, units);
+  add('heat', grade(feelsLikeNow, [32, 35, 40, 46]), 'now', `Feels like ${round(current.feelsLike)}${labels.temperature} right now; limit exertion and stay hydrated`);
+  add('wind', grade(toKmh(current.windGust, units), [60, 75, 90, 118]), 'now', `Wind gusts of ${round(current.windGust)} ${labels.windSpeed} right now`);
+  if (current.weatherCode === 96 || current.weatherCode === 99) {
+    add('thunderstorm', current.weatherCode === 99 ? 'extreme' : 'severe', 'now', 'Thunderstorm with hail in progress; stay indoors');
+  } else if (current.weatherCode === 95) {
+    add('thunderstorm', 'moderate', 'now', 'Thunderstorm in progress; avoid open areas');
+  }
+
+  for (const day of daily) {
+    const feelsLikeMax = toCelsius(day.feelsLikeMax, units);
+    const feelsLikeMin = toCelsius(day.feelsLikeMin, units);
+    const temperatureMin = toCelsius(day.temperatureMin, units);
+    const gust = toKmh(day.windGustMax, units);
+    const precipitation = toMillimeters(day.precipitation, units);
+
+    add('heat', grade(feelsLikeMax, [32, 35, 40, 46]), day.date, `Feels like up to ${round(day.feelsLikeMax)}${labels.temperature}`);
+    add('freeze', grade(-Math.min(temperatureMin, feelsLikeMin), [0, 10, 20, 30]), day.date, `Lows of ${round(day.temperatureMin)}${labels.temperature} (feels like ${round(day.feelsLikeMin)}${labels.temperature}); risk of frost and ice`);
+    add('wind', grade(gust, [60, 75, 90, 118]), day.date, `Wind gusts up to ${round(day.windGustMax)} ${labels.windSpeed}`);
+    add('heavy-precipitation', grade(precipitation, [20, 30, 50, 100]), day.date, `Up to ${amount(day.precipitation)} ${labels.precipitation} of precipitation`);
+    if (day.uvIndexMax !== null) {
+      add('uv', grade(day.uvIndexMax, [6, 8, 11, 14]), day.date, `UV index up to ${round(day.uvIndexMax)}; use sun protection`);
+    }
+    if (day.weatherCode === 96 || day.weatherCode === 99) {
+      add('thunderstorm', day.weatherCode === 99 ? 'extreme' : 'severe', day.date, `Thunderstorms with ${day.weatherCode === 99 ? 'heavy' : 'slight'} hail expected`);
+    } else if (day.weatherCode === 95) {
+      add('thunderstorm', 'moderate', day.date, 'Thunderstorms expected');
+    }
+  }
+
+  if (usAqi !== undefined && usAqi !== null) {
+    add('air-quality', grade(usAqi, [101, 151, 201, 301]), 'now', `US AQI ${usAqi} (${getAqiCategory(usAqi)}); reduce prolonged time outdoors`);
+  }
+
+  return alerts.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+}
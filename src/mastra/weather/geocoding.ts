@@ -0,0 +1,118 @@
+import { ErrorCode, ToolError } from '../errors';
+import { fetchJson } from '../http';
+
+interface GeocodingResponse {
+  results?: {
+    latitude: number;
+    longitude: number;
+    name: string;
+    country?: string;
+    country_code?: string;
+    admin1?: string;
+    admin2?: string;
+    timezone?: string;
+    population?: number;
+  }[];
+}
+
+export interface ResolvedLocation {
+  name: string;
+  latitude: number;
+  longitude: number;
+  country: string | null;
+  countryCode: string | null;
+  admin1: string | null;
+  timezone: string | null;
+  population: number | null;
+}
+
+export interface LocationQuery {
+  location?: string;
+  latitude?: number;
+  longitude?: number;
+  country?: string;
+  admin?: string;
+}
+
+export interface LocationResolution {
+  location: ResolvedLocation;
+  ambiguous: boolean;
+  candidates: ResolvedLocation[];
+}
+
+const MAX_CANDIDATES = 10;
+
+/**
+ * A name is ambiguous when the runner-up is at least this fraction of the
+ * best match's population. Paris, France vs Paris, Texas is not ambiguous;
+ * Portland, Oregon vs Portland, Maine is.
+ */
+const AMBIGUITY_POPULATION_RATIO = 0.05;
+
+/** Whole-value, case-insensitive comparison, so "US" does not match "Australia". */
+function matches(value: string | null, filter: string): boolean {
+  return Boolean(value && value.trim().toLowerCase() === filter.trim().toLowerCase());
+}
+
+function isAmbiguous(candidates: ResolvedLocation[]): boolean {
+  if (candidates.length < 2) return false;
+  const [best, runnerUp] = candidates;
+  if (!best.population || !runnerUp.population) return true;
+  return runnerUp.population / best.population >= AMBIGUITY_POPULATION_RATIO;
+}
+
+/**
+ * Resolves a place name (or coordinates) to a location. Country and admin
+ * region filters narrow the candidates; remaining ambiguity is reported so
+ * the agent can confirm with the user.
+ */
+export async function resolveLocation({ location, latitude, longitude, country, admin }: LocationQuery): Promise<LocationResolution> {
+  if (latitude !== undefined && longitude !== undefined) {
+    const resolved: ResolvedLocation = {
+      name: location || `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`,
+      latitude,
+      longitude,
+      country: null,
+      countryCode: null,
+      admin1: null,
+      timezone: null,
+      population: null,
+    };
+    return { location: resolved, ambiguous: false, candidates: [] };
+  }
+
+  if (!location) {
+    throw new ToolError(ErrorCode.INVALID_INPUT, 'Provide either a location name or latitude and longitude');
+  }
+
+  const params = new URLSearchParams({ name: location, count: String(MAX_CANDIDATES), language: 'en', format: 'json' });
+  if (country && /^[A-Za-z]{2}$/.test(country)) {
+    params.set('countryCode', country.toUpperCase());
+  }
+
+  const data = await fetchJson<GeocodingResponse>(`https://geocoding-api.open-meteo.com/v1/search?${params}`, {
+    service: 'Open-Meteo geocoding',
+  });
+
+  const candidates: ResolvedLocation[] = (data.results ?? [])
+    .map(result => ({
+      name: result.name,
+      latitude: result.latitude,
+      longitude: result.longitude,
+      country: result.country ?? null,
+      countryCode: result.country_code ?? null,
+      admin1: result.admin1 ?? null,
+      timezone: result.timezone ?? null,
+      population: result.population ?? null,
+    }))
+    .filter(candidate => !country || matches(candidate.country, country) || matches(candidate.countryCode, country))
+    .filter(candidate => !admin || matches(candidate.admin1, admin))
+    .sort((a, b) => (b.population ?? 0) - (a.population ?? 0));
+
+  if (candidates.length === 0) {
+    throw new ToolError(ErrorCode.NOT_FOUND, `Location '${location}' not found`, { location, country, admin });
+  }
+
+  const ambiguous = isAmbiguous(candidates);
+  return { location: candidates[0], ambiguous, candidates: ambiguous ? candidates : [] };
+}
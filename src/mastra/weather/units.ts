@@ -0,0 +1,18 @@
+export type Units = 'metric' | 'imperial';
+
+export const UNIT_LABELS: Record<Units, { temperature: string; windSpeed: string; precipitation: string }> = {
+  metric: { temperature: '°C', windSpeed: 'km/h', precipitation: 'mm' },
+  imperial: { temperature: '°F', windSpeed: 'mph', precipitation: 'in' },
+};
+
+export function toCelsius(value: number, units: Units): number {
+  return units === 'imperial' ? ((value - 32) * 5) / 9 : value;
+}
+
+export function toKmh(value: number, units: Units): number {
+  return units === 'imperial' ? value * 1.609344 : value;
+}
+
+export function toMillimeters(value: number, units: Units): number {
+  return units === 'imperial' ? value * 25.4 : value;
+}
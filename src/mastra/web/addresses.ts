@@ -0,0 +1,112 @@
+/**
+ * Address ranges that must never be fetched on behalf of a user: loopback,
+ * private, link-local (including cloud metadata endpoints), carrier-grade
+ * NAT, documentation, benchmarking, multicast and reserved ranges.
+ */
+const BLOCKED_IPV4: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.88.99.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+const BLOCKED_IPV6: Array<[string, number]> = [
+  ['::', 128],
+  ['::1', 128],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['fec0::', 10],
+  ['ff00::', 8],
+];
+
+function parseIpv4(address: string): number | undefined {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return undefined;
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+/** Expands an IPv6 address to 8 16-bit groups; embedded IPv4 tails are converted. */
+function parseIpv6(address: string): number[] | undefined {
+  let text = address.replace(/^\[|\]$/g, '').split('%')[0].toLowerCase();
+
+  const ipv4Tail = /(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (ipv4Tail) {
+    const value = parseIpv4(ipv4Tail[1]);
+    if (value === undefined) return undefined;
+    text = `${text.slice(0, -ipv4Tail[1].length)}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return undefined;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return undefined;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return undefined;
+  return groups.map(group => parseInt(group, 16));
+}
+
+function inIpv4Range(value: number, [base, bits]: [string, number]): boolean {
+  const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+  return ((value & mask) >>> 0) === ((parseIpv4(base)! & mask) >>> 0);
+}
+
+function inIpv6Range(groups: number[], [base, bits]: [string, number]): boolean {
+  const baseGroups = parseIpv6(base)!;
+  for (let i = 0; i < 8 && bits > 0; i++, bits -= 16) {
+    const mask = bits >= 16 ? 0xffff : (0xffff << (16 - bits)) & 0xffff;
+    if ((groups[i] & mask) !== (baseGroups[i] & mask)) return false;
+  }
+  return true;
+}
+
+export function isIpAddress(host: string): boolean {
+  return parseIpv4(host) !== undefined || parseIpv6(host) !== undefined;
+}
+
+function ipv4FromGroups(high: number, low: number): string {
+  return `${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`;
+}
+
+/**
+ * True for addresses on the public internet. IPv4-mapped, IPv4-compatible,
+ * NAT64 and 6to4 IPv6 addresses are judged by the IPv4 address they
+ * embed, and Teredo addresses by both their server and client addresses.
+ * Unparseable input is treated as not public.
+ */
+export function isPublicAddress(address: string): boolean {
+  const ipv4 = parseIpv4(address);
+  if (ipv4 !== undefined) return !BLOCKED_IPV4.some(range => inIpv4Range(ipv4, range));
+
+  const groups = parseIpv6(address);
+  if (!groups) return false;
+
+  const embedsIpv4 =
+    (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0xffff || groups[5] === 0)) ||
+    (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0));
+  if (embedsIpv4 && !(groups[5] === 0 && groups[6] === 0 && groups[7] <= 1)) {
+    return isPublicAddress(ipv4FromGroups(groups[6], groups[7]));
+  }
+  // 6to4 (2002::/16) carries the IPv4 address in the next 32 bits.
+  if (groups[0] === 0x2002) return isPublicAddress(ipv4FromGroups(groups[1], groups[2]));
+  // Teredo (2001::/32) carries the server address, then the client address with its bits inverted.
+  if (groups[0] === 0x2001 && groups[1] === 0) {
+    return isPublicAddress(ipv4FromGroups(groups[2], groups[3])) && isPublicAddress(ipv4FromGroups(groups[6] ^ 0xffff, groups[7] ^ 0xffff));
+  }
+  return !BLOCKED_IPV6.some(range => inIpv6Range(groups, range));
+}
@@ -0,0 +1,110 @@
+import { openai } from '@ai-sdk/openai';
+import { Agent } from '@mastra/core/agent';
+import { toToolError, type ErrorCode } from '../errors';
+
+/** The subset of a webFetchTool result that a comparison uses. */
+export interface ComparedPage {
+  url: string;
+  kind: string;
+  title?: string;
+  siteName?: string;
+  publishedAt?: string;
+  description?: string;
+  content: string;
+  truncated: boolean;
+}
+
+export interface SourceSummary {
+  /** Citation number used in the comparison, starting at 1. */
+  ref: number;
+  url: string;
+  status: 'ok' | 'failed';
+  title?: string;
+  siteName?: string;
+  publishedAt?: string;
+  summary?: string;
+  /** True when only the start of the page was available to summarize. */
+  truncated?: boolean;
+  error?: { code: ErrorCode; message: string };
+}
+
+interface CompareContext {
+  /** Aspects to compare, e.g. price, features, claims. */
+  focus?: string[];
+  language?: string;
+}
+
+const comparer = new Agent({
+  name: 'Source Comparer',
+  instructions: `
+    You summarize and compare several web sources on a shared subject.
+    Use only the text you are given, without adding outside knowledge.
+    Keep concrete facts: names, dates, numbers, prices and claims.
+    When sources disagree, say so rather than picking one.
+  `,
+  model: openai('gpt-4o-mini'),
+});
+
+function languageInstruction(language?: string) {
+  return language ? `Write in ${language}.` : 'Write in the language of the sources.';
+}
+
+function label(source: SourceSummary) {
+  return `[${source.ref}] ${source.title ?? source.siteName ?? source.url} (${source.url})`;
+}
+
+/**
+ * Fetches every URL concurrently. A failed fetch is recorded on its source
+ * instead of rejecting the whole batch.
+ */
+export async function fetchSources(urls: string[], fetcher: (url: string) => Promise<ComparedPage>) {
+  const settled = await Promise.allSettled(urls.map(url => fetcher(url)));
+  return settled.map((result, index) => {
+    const ref = index + 1;
+    const url = urls[index];
+    if (result.status === 'fulfilled') return { ref, url, page: result.value };
+    const error = toToolError(result.reason, `Fetching ${url}`);
+    return { ref, url, error: { code: error.code, message: error.message } };
+  });
+}
+
+/**
+ * Summarizes one fetched source, concentrating on the compared aspects.
+ */
+export async function summarizeSource(page: ComparedPage, context: CompareContext): Promise<string> {
+  const { text } = await comparer.generate(
+    [
+      `Source: ${page.title ?? page.url}${page.siteName ? ` (${page.siteName})` : ''}${page.publishedAt ? `, published ${page.publishedAt}` : ''}`,
+      `Summarize this source in 3-5 sentences for a comparison with other sources.`,
+      context.focus?.length ? `Cover these aspects where the source addresses them: ${context.focus.join(', ')}.` : '',
+      page.truncated ? 'The text is only the start of the page.' : '',
+      languageInstruction(context.language),
+      '',
+      page.content || page.description || '',
+    ].join('\n'),
+  );
+  return text.trim();
+}
+
+/**
+ * Synthesizes a Markdown comparison table from per-source summaries,
+ * citing each source by its `[ref]`, followed by a short synthesis of
+ * where the sources agree and differ.
+ */
+export async function compareSources(sources: SourceSummary[], context: CompareContext): Promise<string> {
+  const summarized = sources.filter(source => source.summary);
+  const { text } = await comparer.generate(
+    [
+      `Compare these ${summarized.length} sources.`,
+      context.focus?.length
+        ? `Write a Markdown table with one row per aspect (${context.focus.join(', ')}) and one column per source.`
+        : 'Write a Markdown table with one row per aspect the sources have in common (choose 4-8) and one column per source.',
+      'Head each source column with its citation number and a short name, e.g. "[2] Example". In every cell, cite the source with its number in brackets, e.g. [2]; write "not mentioned" when a source does not cover an aspect.',
+      'After the table, write 2-4 sentences on where the sources agree and where they differ, citing sources the same way. Cite only the numbers listed below.',
+      languageInstruction(context.language),
+      '',
+      ...summarized.map(source => `${label(source)}\n${source.summary}\n`),
+    ].join('\n'),
+  );
+  return text.trim();
+}
@@ -0,0 +1,25 @@
+import '../env';
+
+export interface FetchPolicy {
+  /** Whole-request budget, including redirects and reading the body. */
+  timeoutMs: number;
+  maxBytes: number;
+  maxRedirects: number;
+  /** Check robots.txt before fetching. */
+  respectRobotsTxt: boolean;
+  /** Allow loopback, private and link-local targets. For local development only. */
+  allowPrivateNetworks: boolean;
+  userAgent: string;
+}
+
+/**
+ * Outbound fetch policy for web tools, resolved from the environment once at startup.
+ */
+export const fetchPolicy: FetchPolicy = {
+  timeoutMs: Number(process.env.WEB_FETCH_TIMEOUT_MS) || 15_000,
+  maxBytes: Number(process.env.WEB_FETCH_MAX_BYTES) || 10 * 1024 * 1024,
+  maxRedirects: Number(process.env.WEB_FETCH_MAX_REDIRECTS) || 5,
+  respectRobotsTxt: process.env.WEB_FETCH_RESPECT_ROBOTS === 'true',
+  allowPrivateNetworks: process.env.WEB_FETCH_ALLOW_PRIVATE === 'true',
+  userAgent: 'Mozilla/5.0 (compatible; SummarizerBot/1.0)',
+};
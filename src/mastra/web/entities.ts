@@ -0,0 +1,47 @@
+import { LEGACY_ENTITIES, NAMED_ENTITIES } from './entityTable';
+
+/** Numeric references 0x80-0x9F are interpreted as windows-1252, as browsers do. */
+const WINDOWS_1252: Record<number, number> = {
+  0x80: 0x20ac, 0x82: 0x201a, 0x83: 0x0192, 0x84: 0x201e, 0x85: 0x2026, 0x86: 0x2020, 0x87: 0x2021,
+  0x88: 0x02c6, 0x89: 0x2030, 0x8a: 0x0160, 0x8b: 0x2039, 0x8c: 0x0152, 0x8e: 0x017d, 0x91: 0x2018,
+  0x92: 0x2019, 0x93: 0x201c, 0x94: 0x201d, 0x95: 0x2022, 0x96: 0x2013, 0x97: 0x2014, 0x98: 0x02dc,
+  0x99: 0x2122, 0x9a: 0x0161, 0x9b: 0x203a, 0x9c: 0x0153, 0x9e: 0x017e, 0x9f: 0x0178,
+};
+
+function decodeNumeric(codePoint: number): string {
+  if (WINDOWS_1252[codePoint]) return String.fromCodePoint(WINDOWS_1252[codePoint]);
+  if (codePoint === 0 || codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff)) return '�';
+  return String.fromCodePoint(codePoint);
+}
+
+/**
+ * Decodes numeric and named character references following the HTML
+ * parsing rules, including legacy references without a semicolon. In
+ * attribute values legacy references followed by `=` or an alphanumeric
+ * are left alone, so query strings like `?a=1&copy=2` survive.
+ */
+export function decodeEntities(text: string, { attribute = false }: { attribute?: boolean } = {}): string {
+  if (!text.includes('&')) return text;
+
+  return text.replace(/&(#[0-9]+|#[xX][0-9a-fA-F]+|[A-Za-z][A-Za-z0-9]*)(;?)/g, (match, ref: string, semicolon: string, offset: number) => {
+    if (ref[0] === '#') {
+      const codePoint = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return decodeNumeric(codePoint);
+    }
+
+    if (semicolon && NAMED_ENTITIES[ref] !== undefined) {
+      return NAMED_ENTITIES[ref];
+    }
+
+    // Longest legacy prefix, e.g. "&copy2024" -> "©2024".
+    for (let length = ref.length; length > 1; length--) {
+      const name = ref.slice(0, length);
+      if (!LEGACY_ENTITIES.has(name)) continue;
+      const next = length < ref.length ? ref[length] : semicolon || text[offset + match.length];
+      if (attribute && next && /[=A-Za-z0-9]/.test(next)) return match;
+      return NAMED_ENTITIES[name] + ref.slice(length) + semicolon;
+    }
+
+    return match;
+  });
+}
@@ -0,0 +1,412 @@
+import { findAll, findFirst, parseHtml, removeNode, textContent, walk, type HtmlElement, type HtmlNode } from './html';
+
+export interface ExtractedPage {
+  title?: string;
+  byline?: string;
+  /** ISO timestamp when parseable, otherwise the date as published. */
+  publishedAt?: string;
+  description?: string;
+  siteName?: string;
+  language?: string;
+  /** `og:*` and `article:*` meta properties. */
+  openGraph: Record<string, string>;
+  /** Main content as Markdown-like text: `#` headings, `-` list items, blank lines between blocks. */
+  content: string;
+}
+
+/** Never part of the main content. */
+const STRIP_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'embed', 'form', 'button', 'input',
+  'select', 'textarea', 'nav', 'aside', 'footer', 'dialog', 'menu',
+]);
+
+const STRIP_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'complementary', 'dialog', 'alertdialog', 'menu', 'search']);
+
+const UNLIKELY = /banner|breadcrumb|combx|comment|community|consent|cookie|disqus|extra|footer|gdpr|header|legends|menu|modal|nav|newsletter|pager|pagination|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|tags|tool|widget|\bad-|ads\b/i;
+const LIKELY = /article|body|column|content|main|entry|hentry|post|story|text|blog/i;
+
+const NEGATIVE = /\bhidden\b|banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|widget/i;
+const POSITIVE = /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i;
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'blockquote', 'dd', 'details', 'div', 'dl', 'dt', 'figcaption', 'figure', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'tbody', 'td',
+  'tfoot', 'th', 'thead', 'tr', 'ul',
+]);
+
+const DATE_META = [
+  'article:published_time',
+  'og:published_time',
+  'datepublished',
+  'date',
+  'pubdate',
+  'publishdate',
+  'publish-date',
+  'publish_date',
+  'dc.date',
+  'dc.date.issued',
+  'dcterms.created',
+  'dcterms.date',
+  'sailthru.date',
+  'parsely-pub-date',
+];
+
+/** Minimum text length for a semantic container (<article>, <main>) to be trusted as the content. */
+const MIN_ARTICLE_CHARS = 250;
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function classAndId(element: HtmlElement): string {
+  return `${element.attrs.class ?? ''} ${element.attrs.id ?? ''}`;
+}
+
+function collectMeta(document: HtmlElement): Map<string, string> {
+  const meta = new Map<string, string>();
+  for (const element of findAll(document, el => el.tag === 'meta')) {
+    const key = (element.attrs.property ?? element.attrs.name ?? element.attrs.itemprop ?? element.attrs['http-equiv'])?.toLowerCase();
+    const value = element.attrs.content?.trim();
+    if (key && value && !meta.has(key)) meta.set(key, value);
+  }
+  return meta;
+}
+
+/** Flattens JSON-LD blocks, including `@graph` arrays, into a list of objects. */
+function collectJsonLd(document: HtmlElement): Record<string, any>[] {
+  const items: Record<string, any>[] = [];
+  const add = (value: unknown) => {
+    if (Array.isArray(value)) value.forEach(add);
+    else if (value && typeof value === 'object') {
+      items.push(value as Record<string, any>);
+      if ('@graph' in value) add((value as { '@graph': unknown })['@graph']);
+    }
+  };
+  for (const script of findAll(document, el => el.tag === 'script' && el.attrs.type === 'application/ld+json')) {
+    try {
+      add(JSON.parse(textContent(script)));
+    } catch {
+      // Ignore malformed structured data.
+    }
+  }
+  return items;
+}
+
+function personName(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) {
+    const names = value.map(personName).filter(Boolean);
+    return names.length ? names.join(', ') : undefined;
+  }
+  const name = value && typeof value === 'object' ? (value as { name?: unknown }).name : undefined;
+  return typeof name === 'string' ? name : undefined;
+}
+
+function normalizeDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? value : new Date(parsed).toISOString();
+}
+
+function pickTitle(document: HtmlElement, meta: Map<string, string>, jsonLd: Record<string, any>[]): string | undefined {
+  const fromMeta = meta.get('og:title') ?? meta.get('twitter:title') ?? jsonLd.find(item => typeof item.headline === 'string')?.headline;
+  if (fromMeta) return collapse(fromMeta);
+
+  const titleElement = findFirst(document, el => el.tag === 'title');
+  const title = titleElement ? collapse(textContent(titleElement)) : undefined;
+  const h1Element = findFirst(document, el => el.tag === 'h1');
+  const h1 = h1Element ? collapse(textContent(h1Element)) : undefined;
+
+  // "Article headline | Site name" -> "Article headline" when an <h1> confirms it.
+  if (title && h1 && title !== h1 && title.includes(h1)) return h1;
+  return title || h1;
+}
+
+function pickByline(document: HtmlElement, meta: Map<string, string>, jsonLd: Record<string, any>[]): string | undefined {
+  const fromMeta = meta.get('author') ?? meta.get('article:author') ?? meta.get('byl') ?? meta.get('dc.creator');
+  if (fromMeta && !/^https?:\/\//.test(fromMeta)) return collapse(fromMeta.replace(/^by\s+/i, ''));
+
+  const fromJsonLd = jsonLd.map(item => personName(item.author)).find(Boolean);
+  if (fromJsonLd) return collapse(fromJsonLd);
+
+  const element = findFirst(
+    document,
+    el => el.attrs.rel === 'author' || el.attrs.itemprop === 'author' || /\b(byline|author)\b/i.test(classAndId(el)),
+  );
+  const text = element ? collapse(textContent(element)).replace(/^by\s+/i, '') : '';
+  return text && text.length < 100 ? text : undefined;
+}
+
+function pickPublishedAt(document: HtmlElement, meta: Map<string, string>, jsonLd: Record<string, any>[]): string | undefined {
+  const fromMeta = DATE_META.map(key => meta.get(key)).find(Boolean);
+  if (fromMeta) return normalizeDate(fromMeta);
+
+  const fromJsonLd = jsonLd.find(item => typeof item.datePublished === 'string')?.datePublished;
+  if (fromJsonLd) return normalizeDate(fromJsonLd);
+
+  const time = findFirst(document, el => (el.tag === 'time' && !!el.attrs.datetime) || el.attrs.itemprop === 'datePublished');
+  return normalizeDate(time?.attrs.datetime ?? time?.attrs.content);
+}
+
+function pickLanguage(document: HtmlElement, meta: Map<string, string>, contentLanguage?: string): string | undefined {
+  const html = findFirst(document, el => el.tag === 'html');
+  const language =
+    html?.attrs.lang ??
+    html?.attrs['xml:lang'] ??
+    meta.get('content-language') ??
+    meta.get('og:locale') ??
+    contentLanguage?.split(',')[0];
+  return language ? language.trim().replace('_', '-') : undefined;
+}
+
+function isHidden(element: HtmlElement): boolean {
+  return (
+    'hidden' in element.attrs ||
+    element.attrs['aria-hidden'] === 'true' ||
+    /display\s*:\s*none|visibility\s*:\s*hidden/i.test(element.attrs.style ?? '')
+  );
+}
+
+/**
+ * Removes markup that is never content, and boilerplate containers whose
+ * class or id looks like navigation, ads, cookie banners and the like.
+ */
+function stripBoilerplate(document: HtmlElement) {
+  for (const element of [...walk(document)]) {
+    if (!element.parent) continue; // already removed with an ancestor
+    const tag = element.tag;
+    if (tag === 'html' || tag === 'body' || tag === 'article' || tag === 'main') continue;
+
+    const signature = classAndId(element);
+    const unlikely = UNLIKELY.test(signature) && !LIKELY.test(signature);
+    const pageHeader = tag === 'header' && !element.parent.tag.match(/^(article|main|section)$/);
+    if (STRIP_TAGS.has(tag) || STRIP_ROLES.has(element.attrs.role ?? '') || isHidden(element) || unlikely || pageHeader) {
+      removeNode(element);
+    }
+  }
+}
+
+interface TextStats {
+  /** Length of the text with whitespace runs collapsed. */
+  length: number;
+  /** Of which inside links. */
+  linkLength: number;
+  commas: number;
+}
+
+/**
+ * Text statistics of every element under `root`, computed children first
+ * in a single pass so scoring never re-reads a subtree's text.
+ */
+function measureText(root: HtmlElement): Map<HtmlElement, TextStats> {
+  const stats = new Map<HtmlElement, TextStats>();
+  for (const element of [...walk(root)].reverse().concat(root)) {
+    const total: TextStats = { length: 0, linkLength: 0, commas: 0 };
+    for (const child of element.children) {
+      const childStats =
+        child.type === 'text'
+          ? { length: child.text.replace(/\s+/g, ' ').length, linkLength: 0, commas: (child.text.match(/[,，、]/g) ?? []).length }
+          : stats.get(child)!;
+      total.length += childStats.length;
+      total.linkLength += childStats.linkLength;
+      total.commas += childStats.commas;
+    }
+    if (element.tag === 'a') total.linkLength = total.length;
+    stats.set(element, total);
+  }
+  return stats;
+}
+
+function linkDensity({ length, linkLength }: TextStats): number {
+  return length ? linkLength / length : 0;
+}
+
+function classWeight(element: HtmlElement): number {
+  const signature = classAndId(element);
+  let weight = 0;
+  if (NEGATIVE.test(signature)) weight -= 25;
+  if (POSITIVE.test(signature)) weight += 25;
+  return weight;
+}
+
+function initialScore(element: HtmlElement): number {
+  const bonus: Record<string, number> = {
+    div: 5, article: 10, main: 10, section: 3, pre: 3, td: 3, blockquote: 3,
+    ol: -3, ul: -3, dl: -3, form: -3, th: -5, h1: -5, h2: -5, h3: -5, h4: -5, h5: -5, h6: -5,
+  };
+  return (bonus[element.tag] ?? 0) + classWeight(element);
+}
+
+function hasBlockChildren(element: HtmlElement): boolean {
+  return element.children.some(child => child.type === 'element' && BLOCK_TAGS.has(child.tag));
+}
+
+/**
+ * Scores paragraph-like elements and credits their ancestors, in the manner
+ * of Arc90 Readability, and returns the best-scoring container.
+ */
+function scoreCandidates(body: HtmlElement, stats: Map<HtmlElement, TextStats>): HtmlElement | undefined {
+  const scores = new Map<HtmlElement, number>();
+
+  for (const element of walk(body)) {
+    const paragraphLike =
+      ['p', 'pre', 'td', 'blockquote'].includes(element.tag) || (element.tag === 'div' && !hasBlockChildren(element));
+    if (!paragraphLike) continue;
+
+    const { length, commas } = stats.get(element)!;
+    if (length < 25) continue;
+
+    const score = 1 + commas + Math.min(3, Math.floor(length / 100));
+
+    let ancestor = element.parent;
+    for (let level = 0; ancestor && ancestor !== body.parent && level < 3; level++, ancestor = ancestor.parent) {
+      if (!scores.has(ancestor)) scores.set(ancestor, initialScore(ancestor));
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, scores.get(ancestor)! + score / divider);
+    }
+  }
+
+  let best: HtmlElement | undefined;
+  let bestScore = -Infinity;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - linkDensity(stats.get(element)!));
+    scores.set(element, adjusted);
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+  if (!best) return undefined;
+
+  // Pull in siblings that look like part of the same article, e.g. when the
+  // body is split across several sibling <div>s.
+  const parent = best.parent;
+  if (!parent || parent === body.parent) return best;
+  const threshold = Math.max(10, bestScore * 0.2);
+  const siblings = parent.children.filter((child): child is HtmlElement => {
+    if (child.type !== 'element') return false;
+    if (child === best) return true;
+    if ((scores.get(child) ?? -Infinity) >= threshold) return true;
+    if (child.tag !== 'p') return false;
+    const childStats = stats.get(child)!;
+    return childStats.length > 80 && linkDensity(childStats) < 0.25;
+  });
+  if (siblings.length === 1) return best;
+  return { type: 'element', tag: 'div', attrs: {}, children: siblings };
+}
+
+function pickContentRoot(document: HtmlElement): HtmlElement {
+  const body = findFirst(document, el => el.tag === 'body') ?? document;
+  const stats = measureText(body);
+
+  // Prefer the longest <article>, then <main>, which often also holds related links.
+  for (const matches of [(el: HtmlElement) => el.tag === 'article', (el: HtmlElement) => el.tag === 'main' || el.attrs.role === 'main']) {
+    const candidates = findAll(body, matches)
+      .map(element => ({ element, length: stats.get(element)!.length }))
+      .filter(entry => entry.length >= MIN_ARTICLE_CHARS)
+      .sort((a, b) => b.length - a.length);
+    if (candidates.length) return candidates[0].element;
+  }
+
+  return scoreCandidates(body, stats) ?? body;
+}
+
+/**
+ * Renders an element tree as Markdown-like text, keeping headings, list
+ * items, preformatted blocks and table rows recognizable.
+ */
+export function renderText(root: HtmlElement): string {
+  // Consecutive list items, or table rows, are separated by a single newline.
+  type Group = 'list' | 'table' | undefined;
+  const blocks: Array<{ text: string; group: Group }> = [];
+  let inline = '';
+
+  const push = (text: string, group?: Group) => blocks.push({ text, group });
+  const flush = (group?: Group) => {
+    const text = collapse(inline);
+    if (text) push(text, group);
+    inline = '';
+  };
+
+  const visit = (node: HtmlNode) => {
+    if (node.type === 'text') {
+      inline += node.text;
+      return;
+    }
+    const { tag } = node;
+    if (tag === 'br') {
+      inline += '\n';
+      return;
+    }
+    if (tag === 'img') {
+      return;
+    }
+    if (/^h[1-6]$/.test(tag)) {
+      flush();
+      const text = collapse(textContent(node));
+      if (text) push(`${'#'.repeat(Number(tag[1]))} ${text}`);
+      return;
+    }
+    if (tag === 'pre') {
+      flush();
+      const text = textContent(node).replace(/^\n|\s+$/g, '');
+      if (text) push(text);
+      return;
+    }
+    if (tag === 'tr') {
+      flush();
+      const cells = node.children
+        .filter((child): child is HtmlElement => child.type === 'element' && (child.tag === 'td' || child.tag === 'th'))
+        .map(cell => collapse(textContent(cell)));
+      if (cells.some(Boolean)) push(`| ${cells.join(' | ')} |`, 'table');
+      return;
+    }
+    if (tag === 'li') {
+      flush();
+      inline = '- ';
+      node.children.forEach(visit);
+      if (collapse(inline) !== '-') flush('list');
+      inline = '';
+      return;
+    }
+
+    const block = BLOCK_TAGS.has(tag);
+    if (block) flush();
+    node.children.forEach(visit);
+    if (block) flush();
+  };
+
+  visit(root);
+  flush();
+  return blocks
+    .map((block, index) => (index === 0 ? '' : block.group && block.group === blocks[index - 1].group ? '\n' : '\n\n') + block.text)
+    .join('');
+}
+
+/**
+ * Extracts the main content and page metadata from an HTML document.
+ * `contentLanguage` is the Content-Language response header, used when the
+ * document does not declare its language.
+ */
+export function extractContent(html: string, { contentLanguage }: { contentLanguage?: string } = {}): ExtractedPage {
+  const document = parseHtml(html);
+  const meta = collectMeta(document);
+  const jsonLd = collectJsonLd(document);
+
+  const openGraph = Object.fromEntries([...meta].filter(([key]) => key.startsWith('og:') || key.startsWith('article:')));
+
+  const page: ExtractedPage = {
+    title: pickTitle(document, meta, jsonLd),
+    byline: pickByline(document, meta, jsonLd),
+    publishedAt: pickPublishedAt(document, meta, jsonLd),
+    description: meta.get('description') ?? meta.get('og:description') ?? meta.get('twitter:description'),
+    siteName: meta.get('og:site_name') ?? personName(jsonLd.find(item => item.publisher)?.publisher),
+    language: pickLanguage(document, meta, contentLanguage),
+    openGraph,
+    content: '',
+  };
+
+  stripBoilerplate(document);
+  page.content = renderText(pickContentRoot(document));
+  return page;
+}
@@ -0,0 +1,141 @@
+import { extractContent } from './extract';
+import { findAll, findFirst, parseHtml, textContent, type HtmlElement } from './html';
+
+export interface FeedItem {
+  title?: string;
+  link?: string;
+  publishedAt?: string;
+  author?: string;
+  /** Item description or content as plain text, shortened. */
+  summary?: string;
+}
+
+export interface Feed {
+  format: 'rss' | 'atom';
+  title?: string;
+  description?: string;
+  link?: string;
+  language?: string;
+  items: FeedItem[];
+}
+
+const MAX_SUMMARY_CHARS = 500;
+
+function child(element: HtmlElement, ...tags: string[]): HtmlElement | undefined {
+  for (const tag of tags) {
+    const match = element.children.find((node): node is HtmlElement => node.type === 'element' && node.tag === tag);
+    if (match) return match;
+  }
+  return undefined;
+}
+
+function childText(element: HtmlElement, ...tags: string[]): string | undefined {
+  const match = child(element, ...tags);
+  const text = match ? textContent(match).replace(/\s+/g, ' ').trim() : '';
+  return text || undefined;
+}
+
+function rawChildText(element: HtmlElement, ...tags: string[]): string | undefined {
+  const match = child(element, ...tags);
+  return match ? textContent(match).trim() || undefined : undefined;
+}
+
+function normalizeDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? value : new Date(parsed).toISOString();
+}
+
+/** Item bodies are usually escaped HTML; reduce them to a short plain-text summary. */
+function summarize(markup: string | undefined): string | undefined {
+  if (!markup) return undefined;
+  const text = /<[a-z][\s\S]*>/i.test(markup) ? extractContent(markup).content : markup;
+  const plain = text.replace(/^#+ /gm, '').replace(/\s+/g, ' ').trim();
+  if (!plain) return undefined;
+  return plain.length > MAX_SUMMARY_CHARS ? `${plain.slice(0, MAX_SUMMARY_CHARS).trimEnd()}...` : plain;
+}
+
+function atomLink(element: HtmlElement): string | undefined {
+  const links = element.children.filter((node): node is HtmlElement => node.type === 'element' && node.tag === 'link');
+  const link = links.find(l => !l.attrs.rel || l.attrs.rel === 'alternate') ?? links[0];
+  return link?.attrs.href;
+}
+
+export function looksLikeFeed(text: string): boolean {
+  return /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<(rss|feed|rdf:RDF)[\s>]/i.test(text);
+}
+
+/**
+ * Parses an RSS 2.0, RSS 1.0 (RDF) or Atom feed. Items keep feed order,
+ * which is newest first for almost all feeds.
+ */
+export function parseFeed(xml: string): Feed {
+  const document = parseHtml(xml, { xml: true });
+  const atom = findFirst(document, el => el.tag === 'feed');
+
+  if (atom) {
+    return {
+      format: 'atom',
+      title: childText(atom, 'title'),
+      description: childText(atom, 'subtitle'),
+      link: atomLink(atom),
+      language: atom.attrs['xml:lang'],
+      items: findAll(atom, el => el.tag === 'entry').map(entry => {
+        const author = child(entry, 'author');
+        return {
+          title: childText(entry, 'title'),
+          link: atomLink(entry),
+          publishedAt: normalizeDate(childText(entry, 'published', 'updated')),
+          author: author ? childText(author, 'name') : undefined,
+          summary: summarize(rawChildText(entry, 'summary', 'content')),
+        };
+      }),
+    };
+  }
+
+  const channel = findFirst(document, el => el.tag === 'channel');
+  return {
+    format: 'rss',
+    title: channel ? childText(channel, 'title') : undefined,
+    description: channel ? childText(channel, 'description') : undefined,
+    link: channel ? childText(channel, 'link') : undefined,
+    language: channel ? childText(channel, 'language', 'dc:language') : undefined,
+    items: findAll(document, el => el.tag === 'item').map(item => ({
+      title: childText(item, 'title'),
+      link: childText(item, 'link') ?? childText(item, 'guid'),
+      publishedAt: normalizeDate(childText(item, 'pubdate', 'dc:date')),
+      author: childText(item, 'dc:creator', 'author'),
+      summary: summarize(rawChildText(item, 'description', 'content:encoded')),
+    })),
+  };
+}
+
+/**
+ * Items sorted newest first by their published (or updated) date. Feeds
+ * are not required to list items in date order; undated items keep their
+ * document order after the dated ones.
+ */
+export function newestFirst(items: FeedItem[]): FeedItem[] {
+  const time = (item: FeedItem) => {
+    const parsed = item.publishedAt ? Date.parse(item.publishedAt) : NaN;
+    return Number.isNaN(parsed) ? -Infinity : parsed;
+  };
+  return items
+    .map((item, index) => ({ item, index, time: time(item) }))
+    .sort((a, b) => (b.time === a.time ? a.index - b.index : b.time - a.time))
+    .map(({ item }) => item);
+}
+
+/**
+ * Renders feed items as Markdown-like text for summarization.
+ */
+export function renderFeed(feed: Feed, items: FeedItem[]): string {
+  const blocks = [feed.title ? `# ${feed.title}` : '', feed.description ?? ''];
+  for (const item of items) {
+    const meta = [item.publishedAt, item.author].filter(Boolean).join(' · ');
+    blocks.push(
+      [`## ${item.title ?? 'Untitled'}`, meta, item.link ?? '', item.summary ?? ''].filter(Boolean).join('\n'),
+    );
+  }
+  return blocks.filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,147 @@
+import { ErrorCode, ToolError } from '../errors';
+import { extractContent, type ExtractedPage } from './extract';
+import { looksLikeFeed, newestFirst, parseFeed, renderFeed, type FeedItem } from './feed';
+import { formatJson } from './json';
+import { extractPdfText, isPdf } from './pdf';
+import { safeFetch } from './safeFetch';
+
+export type ContentKind = 'html' | 'pdf' | 'json' | 'text' | 'feed';
+
+export interface FetchedPage extends ExtractedPage {
+  /** Final URL after redirects. */
+  url: string;
+  kind: ContentKind;
+  /** Media type from the Content-Type header, without parameters. */
+  contentType: string;
+  /** PDFs only. */
+  pageCount?: number;
+  /** Feeds only: the items included in `content`, newest first. */
+  items?: FeedItem[];
+  /** JSON only: true when `content` is a structure outline instead of the document. */
+  summarized?: boolean;
+}
+
+export interface FetchPageOptions {
+  /** Feed items to include. */
+  maxItems?: number;
+  /** JSON documents longer than this when pretty-printed are outlined instead. */
+  maxJsonChars?: number;
+}
+
+const DEFAULT_MAX_ITEMS = 10;
+const DEFAULT_MAX_JSON_CHARS = 8000;
+
+const ACCEPT = [
+  'text/html',
+  'application/xhtml+xml',
+  'application/pdf',
+  'application/json',
+  'application/rss+xml',
+  'application/atom+xml',
+  'text/markdown',
+  'text/plain;q=0.9',
+  '*/*;q=0.5',
+].join(',');
+
+function decodeBody(body: Buffer, contentTypeHeader: string): string {
+  const charset = /charset=["']?([\w-]+)/i.exec(contentTypeHeader)?.[1];
+  try {
+    return new TextDecoder(charset ?? 'utf-8').decode(body);
+  } catch {
+    return new TextDecoder('utf-8').decode(body);
+  }
+}
+
+/**
+ * Decides how to read a response from its Content-Type, sniffing the body
+ * when the header is missing or generic.
+ */
+function detectKind(contentType: string, body: Buffer, text: () => string): ContentKind | undefined {
+  if (contentType === 'application/pdf' || isPdf(body)) return 'pdf';
+  if (/^application\/(rss|atom|rdf)\+xml$/.test(contentType)) return 'feed';
+  if (contentType === 'application/json' || contentType.endsWith('+json')) return 'json';
+  if (contentType === 'text/html' || contentType === 'application/xhtml+xml') return 'html';
+  if (/^(text|application)\/xml$/.test(contentType) || contentType === '' || contentType === 'application/octet-stream') {
+    const start = text().trimStart().slice(0, 1024);
+    if (looksLikeFeed(start)) return 'feed';
+    if (/^[{[]/.test(start)) return 'json';
+    if (/^<(!doctype html|html|head|body)[\s>]/i.test(start)) return 'html';
+    return 'text';
+  }
+  if (contentType.startsWith('text/')) return 'text';
+  return undefined;
+}
+
+/**
+ * Fetches a URL and reads it according to its content type: main content
+ * and metadata for HTML, extracted text for PDFs, pretty-printed or
+ * outlined JSON, plain text and Markdown as is, and feed items for
+ * RSS/Atom. The request goes through `safeFetch`, so the fetch policy
+ * (public addresses only, redirect, size and time limits) applies.
+ */
+export async function fetchPage(url: string, options: FetchPageOptions = {}): Promise<FetchedPage> {
+  const response = await safeFetch(url, { headers: { 'Accept': ACCEPT } });
+
+  const contentTypeHeader = response.headers.get('content-type') ?? '';
+  const contentType = contentTypeHeader.split(';')[0].trim().toLowerCase();
+  const body = response.body;
+  let decoded: string | undefined;
+  const text = () => (decoded ??= decodeBody(body, contentTypeHeader));
+
+  const kind = detectKind(contentType, body, text);
+  if (!kind) {
+    throw new ToolError(ErrorCode.INVALID_INPUT, `Unsupported content type '${contentType}'`, { url, contentType });
+  }
+
+  const base = { url: response.url, kind, contentType, openGraph: {} };
+  const contentLanguage = response.headers.get('content-language')?.split(',')[0].trim() || undefined;
+
+  switch (kind) {
+    case 'html':
+      return { ...base, ...extractContent(text(), { contentLanguage }) };
+
+    case 'pdf': {
+      const pdf = extractPdfText(body);
+      return {
+        ...base,
+        title: pdf.title,
+        byline: pdf.author,
+        publishedAt: pdf.createdAt,
+        language: contentLanguage,
+        content: pdf.text,
+        pageCount: pdf.pageCount,
+      };
+    }
+
+    case 'json': {
+      const json = formatJson(text(), options.maxJsonChars ?? DEFAULT_MAX_JSON_CHARS);
+      if (!json) {
+        throw new ToolError(ErrorCode.UPSTREAM_INVALID_RESPONSE, `${base.url} returned invalid JSON`, { url });
+      }
+      return { ...base, language: contentLanguage, ...json };
+    }
+
+    case 'feed': {
+      const feed = parseFeed(text());
+      const items = newestFirst(feed.items).slice(0, options.maxItems ?? DEFAULT_MAX_ITEMS);
+      return {
+        ...base,
+        title: feed.title,
+        description: feed.description,
+        language: feed.language ?? contentLanguage,
+        content: renderFeed(feed, items),
+        items,
+      };
+    }
+
+    case 'text': {
+      const content = text().replace(/\r\n?/g, '\n').trim();
+      return {
+        ...base,
+        title: /^#\s+(.+)$/m.exec(content)?.[1].trim(),
+        language: contentLanguage,
+        content,
+      };
+    }
+  }
+}
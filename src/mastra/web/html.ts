@@ -0,0 +1,241 @@
+import { decodeEntities } from './entities';
+
+export interface HtmlElement {
+  type: 'element';
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+  parent?: HtmlElement;
+}
+
+export interface HtmlText {
+  type: 'text';
+  text: string;
+  parent?: HtmlElement;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+
+/** Elements whose content is not markup. */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title', 'noscript', 'xmp', 'iframe', 'template']);
+
+/** Block elements that implicitly close an open <p>. */
+const CLOSES_PARAGRAPH = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figcaption', 'figure', 'footer',
+  'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'menu', 'nav', 'ol', 'p', 'pre', 'section',
+  'table', 'ul',
+]);
+
+/** Tags an opening tag closes when one is already open, up to the given boundary tags. */
+const IMPLICIT_CLOSE: Record<string, { closes: string[]; boundary: string[] }> = {
+  li: { closes: ['li'], boundary: ['ul', 'ol', 'menu'] },
+  dt: { closes: ['dt', 'dd'], boundary: ['dl'] },
+  dd: { closes: ['dt', 'dd'], boundary: ['dl'] },
+  tr: { closes: ['tr', 'td', 'th'], boundary: ['table', 'thead', 'tbody', 'tfoot'] },
+  td: { closes: ['td', 'th'], boundary: ['tr', 'table'] },
+  th: { closes: ['td', 'th'], boundary: ['tr', 'table'] },
+  option: { closes: ['option'], boundary: ['select', 'datalist', 'optgroup'] },
+  thead: { closes: ['tbody', 'tfoot'], boundary: ['table'] },
+  tbody: { closes: ['thead', 'tbody'], boundary: ['table'] },
+  tfoot: { closes: ['thead', 'tbody'], boundary: ['table'] },
+};
+
+/**
+ * Deeper elements are attached to the innermost open element instead of
+ * being opened, so unclosed tags cannot build an arbitrarily deep tree.
+ */
+const MAX_DEPTH = 256;
+/** Elements beyond this many are dropped and only their text is kept. */
+const MAX_ELEMENTS = 100_000;
+
+const START_TAG = /<([A-Za-z][\w:.-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/y;
+const END_TAG = /<\/([A-Za-z][\w:.-]*)[^>]*>/y;
+const ATTRIBUTE = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    const name = match[1].toLowerCase();
+    if (!(name in attrs)) {
+      attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '', { attribute: true });
+    }
+  }
+  return attrs;
+}
+
+/**
+ * Parses HTML into a lightweight element tree. Tolerates the usual
+ * real-world markup (unclosed <p>/<li>, stray end tags, uppercase tags)
+ * without implementing the full HTML5 tree construction algorithm.
+ *
+ * With `xml`, HTML-specific rules (void and raw-text elements, implicit
+ * closing) are off, which is enough for feeds and similar documents.
+ */
+export function parseHtml(html: string, { xml = false }: { xml?: boolean } = {}): HtmlElement {
+  const root: HtmlElement = { type: 'element', tag: '#document', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const appendText = (text: string) => {
+    if (!text) return;
+    const parent = current();
+    const last = parent.children[parent.children.length - 1];
+    if (last?.type === 'text') {
+      last.text += text;
+    } else {
+      parent.children.push({ type: 'text', text, parent });
+    }
+  };
+
+  const closeTo = (index: number) => {
+    stack.length = Math.max(1, index);
+  };
+
+  const findOpen = (tags: string[], boundary: string[] = []) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (tags.includes(stack[i].tag)) return i;
+      if (boundary.includes(stack[i].tag)) return -1;
+    }
+    return -1;
+  };
+
+  let elements = 0;
+  let position = 0;
+  while (position < html.length) {
+    const lt = html.indexOf('<', position);
+    if (lt === -1) {
+      appendText(decodeEntities(html.slice(position)));
+      break;
+    }
+    if (lt > position) {
+      appendText(decodeEntities(html.slice(position, lt)));
+    }
+
+    if (html.startsWith('<!--', lt)) {
+      const end = html.indexOf('-->', lt + 4);
+      position = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html.startsWith('<![CDATA[', lt)) {
+      const end = html.indexOf(']]>', lt + 9);
+      appendText(html.slice(lt + 9, end === -1 ? html.length : end));
+      position = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html[lt + 1] === '!' || html[lt + 1] === '?') {
+      const end = html.indexOf('>', lt);
+      position = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    END_TAG.lastIndex = lt;
+    const endTag = END_TAG.exec(html);
+    if (endTag) {
+      const tag = endTag[1].toLowerCase();
+      const index = findOpen([tag]);
+      if (index > 0) closeTo(index);
+      position = lt + endTag[0].length;
+      continue;
+    }
+
+    START_TAG.lastIndex = lt;
+    const startTag = START_TAG.exec(html);
+    if (!startTag) {
+      appendText('<');
+      position = lt + 1;
+      continue;
+    }
+
+    const tag = startTag[1].toLowerCase();
+    const rawAttrs = startTag[2];
+    position = lt + startTag[0].length;
+    if (++elements > MAX_ELEMENTS) continue;
+
+    if (!xml && CLOSES_PARAGRAPH.has(tag)) {
+      const index = findOpen(['p'], ['button', 'td', 'th', 'li', 'blockquote']);
+      if (index > 0) closeTo(index);
+    }
+    const implicit = xml ? undefined : IMPLICIT_CLOSE[tag];
+    if (implicit) {
+      const index = findOpen(implicit.closes, implicit.boundary);
+      if (index > 0) closeTo(index);
+    }
+
+    const element: HtmlElement = {
+      type: 'element',
+      tag,
+      attrs: parseAttributes(rawAttrs.replace(/\/\s*$/, '')),
+      children: [],
+      parent: current(),
+    };
+    current().children.push(element);
+
+    if (!xml && RAW_TEXT_ELEMENTS.has(tag)) {
+      const closing = new RegExp(`</${tag}[\\s/>]`, 'gi');
+      closing.lastIndex = position;
+      const close = closing.exec(html)?.index ?? -1;
+      const end = close === -1 ? html.length : close;
+      const raw = html.slice(position, end);
+      if (raw) {
+        // Titles and textareas can contain entities; scripts and styles cannot.
+        const text = tag === 'title' || tag === 'textarea' ? decodeEntities(raw) : raw;
+        element.children.push({ type: 'text', text, parent: element });
+      }
+      const gt = close === -1 ? -1 : html.indexOf('>', close);
+      position = gt === -1 ? html.length : gt + 1;
+      continue;
+    }
+
+    if ((xml || !VOID_ELEMENTS.has(tag)) && !/\/\s*$/.test(rawAttrs) && stack.length <= MAX_DEPTH) {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+/** Descendant elements in document order. */
+export function* walk(node: HtmlElement): Generator<HtmlElement> {
+  const pending: HtmlNode[] = [...node.children].reverse();
+  while (pending.length) {
+    const next = pending.pop()!;
+    if (next.type !== 'element') continue;
+    yield next;
+    for (let i = next.children.length - 1; i >= 0; i--) pending.push(next.children[i]);
+  }
+}
+
+export function findAll(node: HtmlElement, predicate: (element: HtmlElement) => boolean): HtmlElement[] {
+  return [...walk(node)].filter(predicate);
+}
+
+export function findFirst(node: HtmlElement, predicate: (element: HtmlElement) => boolean): HtmlElement | undefined {
+  for (const element of walk(node)) {
+    if (predicate(element)) return element;
+  }
+  return undefined;
+}
+
+export function textContent(node: HtmlNode): string {
+  if (node.type === 'text') return node.text;
+  const parts: string[] = [];
+  const pending: HtmlNode[] = [node];
+  while (pending.length) {
+    const next = pending.pop()!;
+    if (next.type === 'text') parts.push(next.text);
+    else for (let i = next.children.length - 1; i >= 0; i--) pending.push(next.children[i]);
+  }
+  return parts.join('');
+}
+
+export function removeNode(node: HtmlNode) {
+  const siblings = node.parent?.children;
+  if (!siblings) return;
+  const index = siblings.indexOf(node);
+  if (index !== -1) siblings.splice(index, 1);
+  node.parent = undefined;
+}
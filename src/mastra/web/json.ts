@@ -0,0 +1,70 @@
+const MAX_ARRAY_SAMPLES = 3;
+const MAX_STRING_CHARS = 120;
+const MAX_DEPTH = 6;
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function preview(value: unknown): string {
+  if (typeof value === 'string') {
+    return JSON.stringify(value.length > MAX_STRING_CHARS ? `${value.slice(0, MAX_STRING_CHARS)}...` : value);
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Describes the shape of a JSON value as an indented outline: object keys
+ * with their types, array lengths, and the first few array elements.
+ */
+export function outlineJson(value: unknown, indent = '', depth = 0): string[] {
+  const type = typeOf(value);
+  if (type !== 'object' && type !== 'array') return [`${indent}${preview(value)}`];
+  if (depth >= MAX_DEPTH) return [`${indent}(${type}, nested too deep to show)`];
+
+  if (Array.isArray(value)) {
+    const lines = [`${indent}array of ${value.length}`];
+    value.slice(0, MAX_ARRAY_SAMPLES).forEach((item, index) => {
+      lines.push(`${indent}  [${index}]: ${typeOf(item)}`);
+      if (typeof item === 'object' && item !== null) lines.push(...outlineJson(item, `${indent}    `, depth + 1));
+      else lines[lines.length - 1] += ` = ${preview(item)}`;
+    });
+    if (value.length > MAX_ARRAY_SAMPLES) lines.push(`${indent}  ... ${value.length - MAX_ARRAY_SAMPLES} more`);
+    return lines;
+  }
+
+  const lines: string[] = [];
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    const itemType = typeOf(item);
+    if (itemType === 'object' || itemType === 'array') {
+      lines.push(`${indent}${key}: ${itemType === 'array' ? `array of ${(item as unknown[]).length}` : 'object'}`);
+      // The array's own "array of N" line is already on the key line.
+      lines.push(...(itemType === 'array' ? outlineJson(item, indent, depth + 1).slice(1) : outlineJson(item, `${indent}  `, depth + 1)));
+    } else {
+      lines.push(`${indent}${key}: ${preview(item)}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Pretty-prints JSON, or outlines its structure when the pretty-printed
+ * form would exceed `maxChars`.
+ */
+export function formatJson(text: string, maxChars: number): { content: string; summarized: boolean } | undefined {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+
+  const pretty = JSON.stringify(value, null, 2);
+  if (pretty.length <= maxChars) return { content: pretty, summarized: false };
+  return {
+    content: `JSON structure (${pretty.length} characters when pretty-printed):\n\n${outlineJson(value).join('\n')}`,
+    summarized: true,
+  };
+}
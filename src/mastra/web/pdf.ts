@@ -0,0 +1,651 @@
+import { constants, inflateSync } from 'zlib';
+import { ErrorCode, ToolError } from '../errors';
+
+/**
+ * Minimal PDF text extraction: enough of the file structure (objects,
+ * object streams, the page tree, fonts' ToUnicode maps and text operators)
+ * to get readable text out of typical generated documents. Scanned PDFs
+ * have no text layer and yield nothing.
+ */
+
+interface PdfName {
+  name: string;
+}
+
+interface PdfRef {
+  num: number;
+}
+
+type PdfValue = number | boolean | null | string | PdfName | PdfRef | PdfValue[] | PdfDict;
+
+/** Literal and hex strings are kept as byte strings (one char per byte). */
+interface PdfDict {
+  [key: string]: PdfValue;
+}
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: Buffer;
+}
+
+interface Operator {
+  op: string;
+}
+
+export interface PdfText {
+  text: string;
+  pageCount: number;
+  title?: string;
+  author?: string;
+  createdAt?: string;
+}
+
+const WHITESPACE = /[\0\t\n\f\r ]/;
+const DELIMITER = /[()<>[\]{}/%]/;
+
+const isName = (value: unknown): value is PdfName => typeof value === 'object' && value !== null && 'name' in value;
+const isRef = (value: unknown): value is PdfRef => typeof value === 'object' && value !== null && 'num' in value;
+const isDict = (value: unknown): value is PdfDict =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !isName(value) && !isRef(value);
+
+class Lexer {
+  constructor(
+    readonly src: string,
+    public pos = 0,
+  ) {}
+
+  private skipWhitespace() {
+    const { src } = this;
+    while (this.pos < src.length) {
+      if (WHITESPACE.test(src[this.pos])) {
+        this.pos++;
+      } else if (src[this.pos] === '%') {
+        while (this.pos < src.length && src[this.pos] !== '\n' && src[this.pos] !== '\r') this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private literalString(): string {
+    const { src } = this;
+    let depth = 1;
+    let out = '';
+    this.pos++; // (
+    while (this.pos < src.length) {
+      const ch = src[this.pos++];
+      if (ch === '\\') {
+        const next = src[this.pos++];
+        const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' };
+        if (next in escapes) {
+          out += escapes[next];
+        } else if (/[0-7]/.test(next)) {
+          let octal = next;
+          while (octal.length < 3 && /[0-7]/.test(src[this.pos])) octal += src[this.pos++];
+          out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else if (next === '\r') {
+          if (src[this.pos] === '\n') this.pos++;
+        } else if (next !== '\n') {
+          out += next;
+        }
+      } else if (ch === '(') {
+        depth++;
+        out += ch;
+      } else if (ch === ')') {
+        if (--depth === 0) break;
+        out += ch;
+      } else {
+        out += ch;
+      }
+    }
+    return out;
+  }
+
+  private hexString(): string {
+    const end = this.src.indexOf('>', this.pos);
+    let hex = this.src.slice(this.pos + 1, end === -1 ? undefined : end).replace(/[^0-9A-Fa-f]/g, '');
+    this.pos = end === -1 ? this.src.length : end + 1;
+    if (hex.length % 2) hex += '0';
+    let out = '';
+    for (let i = 0; i < hex.length; i += 2) out += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+    return out;
+  }
+
+  private word(): string {
+    const start = this.pos;
+    while (this.pos < this.src.length && !WHITESPACE.test(this.src[this.pos]) && !DELIMITER.test(this.src[this.pos])) {
+      this.pos++;
+    }
+    return this.src.slice(start, this.pos);
+  }
+
+  /** Next value or operator; undefined at end of input. */
+  next(): PdfValue | Operator | undefined {
+    this.skipWhitespace();
+    const { src } = this;
+    if (this.pos >= src.length) return undefined;
+    const ch = src[this.pos];
+
+    if (ch === '(') return this.literalString();
+    if (ch === '<' && src[this.pos + 1] === '<') {
+      this.pos += 2;
+      const dict: PdfDict = {};
+      for (;;) {
+        this.skipWhitespace();
+        if (this.pos >= src.length) break;
+        if (src.startsWith('>>', this.pos)) {
+          this.pos += 2;
+          break;
+        }
+        const key = this.next();
+        if (!isName(key)) continue;
+        dict[key.name] = this.value();
+      }
+      return dict;
+    }
+    if (ch === '<') return this.hexString();
+    if (ch === '[') {
+      this.pos++;
+      const array: PdfValue[] = [];
+      for (;;) {
+        this.skipWhitespace();
+        if (this.pos >= src.length) break;
+        if (src[this.pos] === ']') {
+          this.pos++;
+          break;
+        }
+        const item = this.value();
+        if (item !== undefined) array.push(item);
+      }
+      return array;
+    }
+    if (ch === '/') {
+      this.pos++;
+      return { name: this.word().replace(/#([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))) };
+    }
+    if (ch === ']' || ch === '>' || ch === ')' || ch === '{' || ch === '}') {
+      this.pos++;
+      return { op: ch };
+    }
+
+    const word = this.word();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      // "12 0 R" is a reference.
+      const save = this.pos;
+      const generation = /^\s+(\d+)\s+R(?=[\s/<>[\]()%]|$)/.exec(src.slice(this.pos, this.pos + 24));
+      if (generation && /^\d+$/.test(word)) {
+        this.pos = save + generation[0].length;
+        return { num: Number(word) };
+      }
+      return Number(word);
+    }
+    if (word === 'true') return true;
+    if (word === 'false') return false;
+    if (word === 'null') return null;
+    return { op: word || src[this.pos++] };
+  }
+
+  /** Next value, treating stray operators as null. */
+  value(): PdfValue {
+    const token = this.next();
+    return token === undefined || (typeof token === 'object' && token !== null && 'op' in token) ? null : token;
+  }
+}
+
+/** Decoded stream bytes allowed per document; a few KB of Flate data can otherwise inflate to gigabytes. */
+const MAX_DECODED_BYTES = 64 * 1024 * 1024;
+
+function decodeStream(dict: PdfDict, data: Buffer, maxOutputLength: number): Buffer | undefined {
+  const filters = ([] as PdfValue[]).concat(dict.Filter ?? []).filter(isName).map(filter => filter.name);
+  let out = data;
+  for (const filter of filters) {
+    if (filter === 'FlateDecode' || filter === 'Fl') {
+      try {
+        out = inflateSync(out, { finishFlush: constants.Z_SYNC_FLUSH, maxOutputLength: Math.max(1, maxOutputLength) });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw new ToolError(ErrorCode.POLICY_VIOLATION, `PDF content expands beyond the ${MAX_DECODED_BYTES} byte limit`, {
+            rule: 'max-bytes',
+            maxBytes: MAX_DECODED_BYTES,
+          });
+        }
+        return undefined;
+      }
+    } else if (filter === 'ASCIIHexDecode' || filter === 'AHx') {
+      out = Buffer.from(out.toString('latin1').replace(/[^0-9A-Fa-f]/g, ''), 'hex');
+    } else {
+      return undefined; // images and rarely used text encodings
+    }
+  }
+  return out;
+}
+
+class PdfDocument {
+  private objects = new Map<number, PdfObject>();
+  /** Decoded streams by object number, so form XObjects drawn many times are inflated once. */
+  private decoded = new Map<number, Buffer | undefined>();
+  /** Decoded bytes left for the whole document. */
+  private budget = MAX_DECODED_BYTES;
+  trailer: PdfDict = {};
+
+  constructor(private data: Buffer) {
+    const src = data.toString('latin1');
+    this.readObjects(src);
+    this.readObjectStreams();
+    this.readTrailer(src);
+  }
+
+  private readObjects(src: string) {
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+    for (let match = header.exec(src); match; match = header.exec(src)) {
+      const lexer = new Lexer(src, match.index + match[0].length);
+      const value = lexer.value();
+      const object: PdfObject = { value };
+
+      const afterValue = /^\s*stream\r?\n/.exec(src.slice(lexer.pos, lexer.pos + 16));
+      if (afterValue && isDict(value)) {
+        const start = lexer.pos + afterValue[0].length;
+        const length = typeof value.Length === 'number' ? value.Length : -1;
+        const end =
+          length >= 0 && /^\s*endstream/.test(src.slice(start + length, start + length + 16))
+            ? start + length
+            : src.indexOf('endstream', start);
+        object.stream = this.data.subarray(start, end === -1 ? src.length : end);
+        header.lastIndex = end === -1 ? src.length : end;
+      } else {
+        header.lastIndex = lexer.pos;
+      }
+      // Later definitions (incremental updates) replace earlier ones.
+      this.objects.set(Number(match[1]), object);
+    }
+  }
+
+  private readObjectStreams() {
+    for (const object of [...this.objects.values()]) {
+      const dict = object.value;
+      if (!isDict(dict) || !isName(dict.Type) || dict.Type.name !== 'ObjStm' || !object.stream) continue;
+      const decoded = this.decode(dict, object.stream);
+      if (!decoded) continue;
+
+      const src = decoded.toString('latin1');
+      const first = typeof dict.First === 'number' ? dict.First : 0;
+      const lexer = new Lexer(src);
+      const entries: Array<[number, number]> = [];
+      for (let i = 0; i < (typeof dict.N === 'number' ? dict.N : 0); i++) {
+        entries.push([lexer.value() as number, lexer.value() as number]);
+      }
+      for (const [num, offset] of entries) {
+        if (!this.objects.has(num)) {
+          this.objects.set(num, { value: new Lexer(src, first + offset).value() });
+        }
+      }
+    }
+  }
+
+  private readTrailer(src: string) {
+    for (let index = src.lastIndexOf('trailer'); index !== -1; index = src.lastIndexOf('trailer', index - 1)) {
+      const value = new Lexer(src, index + 7).value();
+      if (isDict(value)) {
+        this.trailer = { ...value, ...this.trailer };
+        if (this.trailer.Root) return;
+      }
+    }
+    // Cross-reference streams carry the trailer keys in their dictionary.
+    for (const object of this.objects.values()) {
+      if (isDict(object.value) && isName(object.value.Type) && object.value.Type.name === 'XRef') {
+        this.trailer = { ...object.value, ...this.trailer };
+      }
+    }
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (isRef(value) && depth < 16) return this.resolve(this.objects.get(value.num)?.value, depth + 1);
+    return value;
+  }
+
+  dict(value: PdfValue | undefined): PdfDict | undefined {
+    const resolved = this.resolve(value);
+    return isDict(resolved) ? resolved : undefined;
+  }
+
+  private decode(dict: PdfDict, data: Buffer): Buffer | undefined {
+    const decoded = decodeStream(dict, data, this.budget);
+    this.budget -= decoded?.length ?? 0;
+    return decoded;
+  }
+
+  stream(value: PdfValue | undefined): Buffer | undefined {
+    if (!isRef(value)) return undefined;
+    if (this.decoded.has(value.num)) return this.decoded.get(value.num);
+    const object = this.objects.get(value.num);
+    if (!object?.stream || !isDict(object.value)) return undefined;
+    const decoded = this.decode(object.value, object.stream);
+    this.decoded.set(value.num, decoded);
+    return decoded;
+  }
+
+  /** Page dictionaries in page-tree order, with inherited resources resolved. */
+  pages(): Array<{ page: PdfDict; resources?: PdfDict }> {
+    const pages: Array<{ page: PdfDict; resources?: PdfDict }> = [];
+    const visited = new Set<PdfDict>();
+    const visit = (node: PdfDict | undefined, inherited?: PdfDict) => {
+      if (!node || visited.has(node)) return;
+      visited.add(node);
+      const resources = this.dict(node.Resources) ?? inherited;
+      const kids = this.resolve(node.Kids);
+      if (Array.isArray(kids)) {
+        kids.forEach(kid => visit(this.dict(kid), resources));
+      } else {
+        pages.push({ page: node, resources });
+      }
+    };
+    visit(this.dict(this.dict(this.trailer.Root)?.Pages));
+
+    if (pages.length === 0) {
+      for (const object of this.objects.values()) {
+        if (isDict(object.value) && isName(object.value.Type) && object.value.Type.name === 'Page') {
+          pages.push({ page: object.value, resources: this.dict(object.value.Resources) });
+        }
+      }
+    }
+    return pages;
+  }
+}
+
+interface Font {
+  /** Bytes per character code. */
+  codeLength: number;
+  toUnicode?: Map<number, string>;
+}
+
+function utf16be(bytes: string): string {
+  let out = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) out += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+  return out;
+}
+
+function codeOf(bytes: string): number {
+  let code = 0;
+  for (const ch of bytes) code = code * 256 + ch.charCodeAt(0);
+  return code;
+}
+
+/** Codes a ToUnicode map may define, enough for every two-byte code once. */
+const MAX_MAPPED_CODES = 0x10000;
+
+/**
+ * Reads a ToUnicode CMap. Ranges that would take the map past
+ * MAX_MAPPED_CODES codes are ignored.
+ */
+function parseToUnicode(cmap: string): { map: Map<number, string>; codeLength?: number } {
+  const map = new Map<number, string>();
+  const lexer = new Lexer(cmap);
+  const operands: PdfValue[] = [];
+  let codeLength: number | undefined;
+  let remaining = MAX_MAPPED_CODES;
+
+  for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+    if (!(typeof token === 'object' && token !== null && 'op' in token)) {
+      operands.push(token as PdfValue);
+      continue;
+    }
+    if (token.op === 'endcodespacerange' && typeof operands[0] === 'string') {
+      codeLength = operands[0].length;
+    } else if (token.op === 'endbfchar') {
+      for (let i = 0; i + 1 < operands.length; i += 2) {
+        const [src, dst] = [operands[i], operands[i + 1]];
+        if (typeof src === 'string' && typeof dst === 'string' && remaining > 0) {
+          map.set(codeOf(src), utf16be(dst));
+          remaining--;
+        }
+      }
+    } else if (token.op === 'endbfrange') {
+      for (let i = 0; i + 2 < operands.length; i += 3) {
+        const [lo, hi, dst] = [operands[i], operands[i + 1], operands[i + 2]];
+        if (typeof lo !== 'string' || typeof hi !== 'string') continue;
+        const start = codeOf(lo);
+        const end = Math.min(codeOf(hi), start + 0xffff);
+        if (end < start || end - start + 1 > remaining) continue;
+        remaining -= end - start + 1;
+        const base = typeof dst === 'string' ? utf16be(dst) : '';
+        for (let code = start; code <= end; code++) {
+          if (Array.isArray(dst)) {
+            const item = dst[code - start];
+            if (typeof item === 'string') map.set(code, utf16be(item));
+          } else if (base) {
+            // Increment the last UTF-16 unit of the destination.
+            map.set(code, base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + code - start));
+          }
+        }
+      }
+    }
+    operands.length = 0;
+  }
+  return { map, codeLength };
+}
+
+function decodeText(bytes: string, font: Font | undefined): string {
+  if (!font?.toUnicode) {
+    // Two-byte codes without a map cannot be decoded meaningfully.
+    return font?.codeLength === 2 ? '' : bytes;
+  }
+  let out = '';
+  for (let i = 0; i < bytes.length; i += font.codeLength) {
+    const code = codeOf(bytes.slice(i, i + font.codeLength));
+    out += font.toUnicode.get(code) ?? '';
+  }
+  return out;
+}
+
+/** Multiplier on font units for gaps in TJ arrays that count as a word break. */
+const TJ_SPACE_THRESHOLD = -200;
+/** Content stream operators run per document, counting those in form XObjects. */
+const MAX_OPERATORS = 2_000_000;
+/** Extracted characters per document; forms drawn many times repeat their text. */
+const MAX_TEXT_CHARS = 4_000_000;
+
+function budgetExceeded(rule: string, limit: number, what: string): ToolError {
+  return new ToolError(ErrorCode.POLICY_VIOLATION, `PDF has more than ${limit} ${what}`, { rule, limit });
+}
+
+class TextExtractor {
+  private lines: string[] = [];
+  private line = '';
+  private fontCache = new Map<PdfDict, Font>();
+  /** Text of forms already drawn, by form and the resources it was drawn with. */
+  private formText = new Map<PdfDict, Map<PdfDict | undefined, string[]>>();
+  /** Forms being drawn, so a form that draws itself is skipped. */
+  private drawing = new Set<PdfDict>();
+  private operators = 0;
+  private chars = 0;
+
+  constructor(private document: PdfDocument) {}
+
+  private font(resources: PdfDict | undefined, name: string): Font | undefined {
+    const dict = this.document.dict(this.document.dict(resources?.Font)?.[name]);
+    if (!dict) return undefined;
+    let font = this.fontCache.get(dict);
+    if (!font) {
+      const composite = isName(dict.Subtype) && dict.Subtype.name === 'Type0';
+      const cmap = this.document.stream(dict.ToUnicode);
+      const parsed = cmap ? parseToUnicode(cmap.toString('latin1')) : undefined;
+      font = {
+        codeLength: parsed?.codeLength ?? (composite ? 2 : 1),
+        toUnicode: parsed?.map.size ? parsed.map : undefined,
+      };
+      this.fontCache.set(dict, font);
+    }
+    return font;
+  }
+
+  private newLine() {
+    if (this.line.trim()) this.lines.push(this.line.replace(/\s+/g, ' ').trim());
+    this.line = '';
+  }
+
+  private show(text: string) {
+    this.chars += text.length;
+    if (this.chars > MAX_TEXT_CHARS) throw budgetExceeded('max-text-chars', MAX_TEXT_CHARS, 'characters of text');
+    this.line += text;
+  }
+
+  /**
+   * Draws a form XObject. Its text is extracted once per set of resources
+   * and replayed when the form is drawn again.
+   */
+  private drawForm(form: PdfDict, content: Buffer, resources: PdfDict | undefined, depth: number) {
+    if (this.drawing.has(form)) return;
+    const byResources = this.formText.get(form) ?? new Map<PdfDict | undefined, string[]>();
+    this.formText.set(form, byResources);
+    let text = byResources.get(resources);
+    if (!text) {
+      const [lines, line, chars] = [this.lines, this.line, this.chars];
+      this.lines = [];
+      this.line = '';
+      this.drawing.add(form);
+      try {
+        this.run(content.toString('latin1'), resources, depth + 1);
+        text = [...this.lines, this.line];
+      } finally {
+        this.drawing.delete(form);
+        // The text counts towards the budget when it is shown below.
+        [this.lines, this.line, this.chars] = [lines, line, chars];
+      }
+      byResources.set(resources, text);
+    }
+    text.forEach((part, index) => {
+      if (index > 0) this.newLine();
+      this.show(part);
+    });
+  }
+
+  run(content: string, resources: PdfDict | undefined, depth = 0) {
+    const lexer = new Lexer(content);
+    const operands: PdfValue[] = [];
+    let font: Font | undefined;
+    let lastY: number | undefined;
+
+    for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+      if (!(typeof token === 'object' && token !== null && 'op' in token)) {
+        operands.push(token as PdfValue);
+        continue;
+      }
+      if (++this.operators > MAX_OPERATORS) throw budgetExceeded('max-operators', MAX_OPERATORS, 'content stream operators');
+
+      switch (token.op) {
+        case 'Tf':
+          font = isName(operands[0]) ? this.font(resources, operands[0].name) : undefined;
+          break;
+        case 'Tj':
+          if (typeof operands[0] === 'string') this.show(decodeText(operands[0], font));
+          break;
+        case "'":
+        case '"':
+          this.newLine();
+          if (typeof operands[operands.length - 1] === 'string') {
+            this.show(decodeText(operands[operands.length - 1] as string, font));
+          }
+          break;
+        case 'TJ':
+          if (Array.isArray(operands[0])) {
+            for (const item of operands[0]) {
+              if (typeof item === 'string') this.show(decodeText(item, font));
+              else if (typeof item === 'number' && item < TJ_SPACE_THRESHOLD && !this.line.endsWith(' ')) this.show(' ');
+            }
+          }
+          break;
+        case 'Td':
+        case 'TD':
+          if (typeof operands[1] === 'number' && operands[1] !== 0) this.newLine();
+          else if (typeof operands[0] === 'number' && operands[0] > 0 && !this.line.endsWith(' ')) this.show(' ');
+          break;
+        case 'T*':
+          this.newLine();
+          break;
+        case 'Tm':
+          if (typeof operands[5] === 'number') {
+            if (lastY !== undefined && operands[5] !== lastY) this.newLine();
+            else if (!this.line.endsWith(' ')) this.show(' ');
+            lastY = operands[5];
+          }
+          break;
+        case 'ET':
+          this.show(' ');
+          break;
+        case 'Do':
+          if (isName(operands[0]) && depth < 3) {
+            const ref = this.document.dict(resources?.XObject)?.[operands[0].name];
+            const xobject = this.document.dict(ref);
+            if (xobject && isName(xobject.Subtype) && xobject.Subtype.name === 'Form') {
+              const stream = this.document.stream(ref);
+              if (stream) this.drawForm(xobject, stream, this.document.dict(xobject.Resources) ?? resources, depth);
+            }
+          }
+          break;
+        case 'ID': {
+          // Inline image data: skip to the EI operator.
+          const end = content.slice(lexer.pos).search(/\sEI(?=\s|$)/);
+          lexer.pos = end === -1 ? content.length : lexer.pos + end + 3;
+          break;
+        }
+      }
+      operands.length = 0;
+    }
+  }
+
+  finishPage(): string {
+    this.newLine();
+    const text = this.lines.join('\n');
+    this.lines = [];
+    return text;
+  }
+}
+
+/** Parses PDF dates such as `D:20240131120000+01'00'`. */
+function parsePdfDate(value: string | undefined): string | undefined {
+  const match = value && /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?/.exec(value);
+  if (!match) return value || undefined;
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', sign, tzHour = '00', tzMinute = '00'] = match;
+  const zone = !sign || sign.toUpperCase() === 'Z' ? 'Z' : `${sign}${tzHour}:${tzMinute}`;
+  const parsed = Date.parse(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+  return Number.isNaN(parsed) ? value : new Date(parsed).toISOString();
+}
+
+/** Info dictionary strings are UTF-16BE with a BOM or PDFDocEncoding (close to Latin-1). */
+function infoString(value: PdfValue | undefined): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const text = value.startsWith('\xfe\xff') ? utf16be(value.slice(2)) : value;
+  return text.replace(/\0/g, '').trim() || undefined;
+}
+
+export function isPdf(data: Buffer): boolean {
+  return data.subarray(0, 1024).toString('latin1').includes('%PDF-');
+}
+
+export function extractPdfText(data: Buffer): PdfText {
+  const document = new PdfDocument(data);
+  if (document.trailer.Encrypt) {
+    throw new ToolError(ErrorCode.UPSTREAM_INVALID_RESPONSE, 'Encrypted PDFs are not supported');
+  }
+
+  const extractor = new TextExtractor(document);
+  const pages = document.pages();
+  const texts = pages.map(({ page, resources }) => {
+    const contents = document.resolve(page.Contents);
+    const refs = Array.isArray(contents) ? contents : [page.Contents];
+    const content = refs
+      .map(ref => document.stream(ref as PdfValue)?.toString('latin1') ?? '')
+      .join('\n');
+    extractor.run(content, resources);
+    return extractor.finishPage();
+  });
+
+  const info = document.dict(document.trailer.Info);
+  return {
+    text: texts.filter(Boolean).join('\n\n'),
+    pageCount: pages.length,
+    title: infoString(info?.Title),
+    author: infoString(info?.Author),
+    createdAt: parsePdfDate(infoString(info?.CreationDate)),
+  };
+}
@@ -0,0 +1,65 @@
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+/**
+ * Parses robots.txt (RFC 9309) and returns the rules that apply to
+ * `agent`: the groups naming the agent's product token, or the `*` groups
+ * when none do.
+ */
+export function parseRobots(text: string, agent: string): RobotsRule[] {
+  const token = agent.toLowerCase();
+  const named: RobotsRule[] = [];
+  const wildcard: RobotsRule[] = [];
+  let agents: string[] = [];
+  let inRules = false;
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*/, '').trim();
+    const match = /^([\w-]+)\s*:\s*(.*)$/.exec(line);
+    if (!match) continue;
+    const field = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (field === 'user-agent') {
+      if (inRules) {
+        agents = [];
+        inRules = false;
+      }
+      agents.push(value.toLowerCase());
+    } else if (field === 'allow' || field === 'disallow') {
+      inRules = true;
+      if (!value) continue;
+      const rule = { allow: field === 'allow', pattern: value };
+      if (agents.some(name => name && name !== '*' && token.includes(name))) named.push(rule);
+      else if (agents.includes('*')) wildcard.push(rule);
+    }
+  }
+
+  return named.length ? named : wildcard;
+}
+
+function matches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Applies the most specific matching rule; Allow wins ties. Paths no rule
+ * matches are allowed.
+ */
+export function isPathAllowed(rules: RobotsRule[], path: string): boolean {
+  let best: RobotsRule | undefined;
+  for (const rule of rules) {
+    if (!matches(rule.pattern, path)) continue;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best?.allow ?? true;
+}
@@ -0,0 +1,217 @@
+import { lookup } from 'dns/promises';
+import type { LookupAddress } from 'dns';
+import { Agent, fetch, type Response } from 'undici';
+import { ErrorCode, ToolError, toToolError } from '../errors';
+import { httpError } from '../http';
+import { isIpAddress, isPublicAddress } from './addresses';
+import { fetchPolicy, type FetchPolicy } from './config';
+import { isPathAllowed, parseRobots, type RobotsRule } from './robots';
+
+export type PolicyRule = 'protocol' | 'private-address' | 'redirect-limit' | 'max-bytes' | 'robots';
+
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+export interface SafeFetchOptions {
+  headers?: Record<string, string>;
+  policy?: FetchPolicy;
+  /** Overridable for tests; defaults to the system resolver. */
+  resolve?: HostResolver;
+}
+
+export interface SafeResponse {
+  /** Final URL after redirects. */
+  url: string;
+  status: number;
+  headers: Headers;
+  body: Buffer;
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const BLOCKED_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.home.arpa'];
+const ROBOTS_MAX_BYTES = 512 * 1024;
+const ROBOTS_TTL_MS = 60 * 60 * 1000;
+
+const robotsCache = new Map<string, { rules: RobotsRule[]; expiresAt: number }>();
+
+const systemResolver: HostResolver = async hostname => (await lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+
+function violation(rule: PolicyRule, message: string, details: Record<string, unknown> = {}): ToolError {
+  return new ToolError(ErrorCode.POLICY_VIOLATION, message, { rule, ...details });
+}
+
+/**
+ * Rejects URLs that are not http(s) or whose host is, or resolves to, a
+ * non-public address. Every resolved address is checked so a hostname
+ * with one public and one private record cannot slip through. Returns the
+ * checked addresses of a hostname, which the request must connect to.
+ */
+async function assertAllowedTarget(url: URL, policy: FetchPolicy, resolve: HostResolver): Promise<string[] | undefined> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw violation('protocol', `Only http and https URLs can be fetched, not '${url.protocol.slice(0, -1)}'`, { url: url.href });
+  }
+  if (policy.allowPrivateNetworks) return undefined;
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const blocked = () => violation('private-address', `Fetching ${url.host} is not allowed: it is not a public internet address`, { url: url.href });
+
+  if (isIpAddress(hostname)) {
+    if (!isPublicAddress(hostname)) throw blocked();
+    return undefined;
+  }
+  if (hostname === 'localhost' || !hostname.includes('.') || BLOCKED_HOST_SUFFIXES.some(suffix => hostname.endsWith(suffix))) {
+    throw blocked();
+  }
+
+  let addresses: string[];
+  try {
+    addresses = await resolve(hostname);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException | undefined)?.code;
+    if (code === 'ENOTFOUND' || code === 'ENODATA') {
+      throw new ToolError(ErrorCode.NOT_FOUND, `Host ${url.host} could not be resolved`, { url: url.href });
+    }
+    throw toToolError(error, `Resolving ${url.host}`);
+  }
+  if (!addresses.length || addresses.some(address => !isPublicAddress(address))) throw blocked();
+  return addresses;
+}
+
+/**
+ * A connection pool that resolves every hostname to the given addresses
+ * only. Connecting to the addresses that passed the check, instead of
+ * letting fetch resolve the name again, keeps a DNS-rebinding host from
+ * answering the check with a public address and the connection with a
+ * private one.
+ */
+function pinnedAgent(addresses: string[]): Agent {
+  const entries: LookupAddress[] = addresses.map(address => ({ address, family: address.includes(':') ? 6 : 4 }));
+  return new Agent({
+    connect: {
+      lookup: (_hostname, options, callback) => {
+        if (options.all) callback(null, entries);
+        else callback(null, entries[0].address, entries[0].family);
+      },
+    },
+  });
+}
+
+async function readBody(response: Response, url: string, maxBytes: number): Promise<Buffer> {
+  const tooLarge = () => violation('max-bytes', `Response from ${new URL(url).host} exceeds the ${maxBytes} byte limit`, { url, maxBytes });
+
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxBytes) throw tooLarge();
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel().catch(() => {});
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Loads the robots.txt rules for an origin, cached for an hour. A missing
+ * or unreadable robots.txt allows everything.
+ */
+async function robotsRules(origin: string, policy: FetchPolicy, resolve: HostResolver): Promise<RobotsRule[]> {
+  const cached = robotsCache.get(origin);
+  if (cached && cached.expiresAt > Date.now()) return cached.rules;
+
+  let rules: RobotsRule[] = [];
+  try {
+    const response = await safeFetch(`${origin}/robots.txt`, {
+      policy: { ...policy, respectRobotsTxt: false, maxBytes: ROBOTS_MAX_BYTES },
+      resolve,
+    });
+    const agent = /compatible; ([\w-]+)/.exec(policy.userAgent)?.[1] ?? policy.userAgent;
+    rules = parseRobots(new TextDecoder().decode(response.body), agent);
+  } catch (error) {
+    // A robots.txt on a private address must not become a way around the address check.
+    if ((error as ToolError).code === ErrorCode.POLICY_VIOLATION && (error as ToolError).details?.rule === 'private-address') {
+      throw error;
+    }
+  }
+
+  robotsCache.set(origin, { rules, expiresAt: Date.now() + ROBOTS_TTL_MS });
+  return rules;
+}
+
+/**
+ * fetch() for user-supplied URLs. Before every hop, including each
+ * redirect, the target must be http(s) on a public address, and, when
+ * the policy asks for it, allowed by robots.txt. Redirects are capped, the
+ * whole exchange shares one timeout, and bodies beyond the byte limit are
+ * rejected. Policy failures are ToolErrors with code POLICY_VIOLATION and
+ * `details.rule` naming the rule; non-2xx responses fail as in
+ * `fetchOrThrow`.
+ */
+export async function safeFetch(url: string, { headers = {}, policy = fetchPolicy, resolve = systemResolver }: SafeFetchOptions = {}): Promise<SafeResponse> {
+  const signal = AbortSignal.timeout(policy.timeoutMs);
+  let current: URL;
+  try {
+    current = new URL(url);
+  } catch {
+    throw new ToolError(ErrorCode.INVALID_INPUT, `Invalid URL '${url}'`, { url });
+  }
+
+  for (let redirects = 0; ; redirects++) {
+    const service = current.host;
+    const addresses = await assertAllowedTarget(current, policy, resolve);
+
+    if (policy.respectRobotsTxt && current.pathname !== '/robots.txt') {
+      const rules = await robotsRules(current.origin, policy, resolve);
+      if (!isPathAllowed(rules, current.pathname + current.search)) {
+        throw violation('robots', `robots.txt on ${service} does not allow fetching ${current.pathname}`, { url: current.href });
+      }
+    }
+
+    const dispatcher = addresses ? pinnedAgent(addresses) : undefined;
+    try {
+      let response: Response;
+      try {
+        response = await fetch(current, {
+          headers: { 'User-Agent': policy.userAgent, ...headers },
+          redirect: 'manual',
+          signal,
+          dispatcher,
+        });
+      } catch (error) {
+        throw toToolError(error, `Request to ${service}`);
+      }
+
+      const location = response.headers.get('location');
+      if (REDIRECT_STATUSES.has(response.status) && location) {
+        await response.body?.cancel().catch(() => {});
+        if (redirects >= policy.maxRedirects) {
+          throw violation('redirect-limit', `Too many redirects (more than ${policy.maxRedirects}) from ${url}`, { url, maxRedirects: policy.maxRedirects });
+        }
+        try {
+          current = new URL(location, current);
+        } catch {
+          throw new ToolError(ErrorCode.UPSTREAM_INVALID_RESPONSE, `${service} redirected to an invalid URL`, { url: current.href, location });
+        }
+        continue;
+      }
+
+      if (!response.ok) throw httpError(response, service, current.href);
+
+      try {
+        const body = await readBody(response, current.href, policy.maxBytes);
+        return { url: current.href, status: response.status, headers: response.headers, body };
+      } catch (error) {
+        throw toToolError(error, `Reading the response from ${service}`);
+      }
+    } finally {
+      dispatcher?.destroy().catch(() => {});
+    }
+  }
+}
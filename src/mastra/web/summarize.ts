@@ -0,0 +1,155 @@
+import { openai } from '@ai-sdk/openai';
+import { Agent } from '@mastra/core/agent';
+import { chunkText } from '../rag/chunker';
+
+export const DETAIL_LEVELS = ['brief', 'standard', 'detailed'] as const;
+export type DetailLevel = (typeof DETAIL_LEVELS)[number];
+
+/** Characters per section sent to the model in the map phase. */
+const SECTION_CHARS = 6000;
+/** Sections beyond this are reported as not covered rather than summarized. */
+export const MAX_SECTIONS = 40;
+const CONCURRENCY = 4;
+/** Combined section summaries above this size are reduced in groups first. */
+const REDUCE_CHARS = 12_000;
+
+const DETAIL_INSTRUCTIONS: Record<DetailLevel, { section: string; final: string }> = {
+  brief: {
+    section: 'in 1-2 sentences',
+    final: 'in at most 100 words',
+  },
+  standard: {
+    section: 'in 2-4 sentences',
+    final: 'in 150-300 words, with short sections if the content is complex',
+  },
+  detailed: {
+    section: 'in up to 6 bullet points keeping key facts, figures and names',
+    final: 'in 400-800 words with a heading per major topic, keeping key facts, figures and names',
+  },
+};
+
+const sectionSummarizer = new Agent({
+  name: 'Section Summarizer',
+  instructions: `
+    You summarize parts of a longer document for a later summary of the whole.
+    Summarize only the text you are given, without adding outside knowledge or commentary.
+    Keep concrete facts: names, dates, numbers and conclusions.
+  `,
+  model: openai('gpt-4o-mini'),
+});
+
+export interface PageSection {
+  /** Headings covered by the section, in order. */
+  headings: string[];
+  text: string;
+}
+
+export interface SectionSummary {
+  index: number;
+  headings: string[];
+  summary?: string;
+  error?: string;
+}
+
+interface SummaryContext {
+  title?: string;
+  detail: DetailLevel;
+  /** Language to write in; defaults to the document's. */
+  language?: string;
+}
+
+function languageInstruction(language?: string) {
+  return language ? `Write in ${language}.` : 'Write in the language of the document.';
+}
+
+/**
+ * Splits page content into sections of at most `maxChars`, breaking at
+ * headings where possible and merging short neighbouring sections.
+ */
+export function splitIntoSections(content: string, maxChars = SECTION_CHARS): PageSection[] {
+  const sections: PageSection[] = [];
+  for (const chunk of chunkText(content, maxChars, 0)) {
+    const last = sections[sections.length - 1];
+    if (last && last.text.length + chunk.content.length + 2 <= maxChars) {
+      last.text += `\n\n${chunk.content}`;
+      if (chunk.section && !last.headings.includes(chunk.section)) last.headings.push(chunk.section);
+    } else {
+      sections.push({ headings: chunk.section ? [chunk.section] : [], text: chunk.content });
+    }
+  }
+  return sections;
+}
+
+/**
+ * Map phase: summarizes sections independently, a few at a time. A failed
+ * section is reported with its error instead of failing the whole page.
+ */
+export async function summarizeSections(sections: PageSection[], context: SummaryContext): Promise<SectionSummary[]> {
+  const results: SectionSummary[] = sections.map((section, index) => ({ index, headings: section.headings }));
+  const queue = sections.map((_, index) => index);
+
+  const worker = async () => {
+    for (let index = queue.shift(); index !== undefined; index = queue.shift()) {
+      const section = sections[index];
+      const prompt = [
+        context.title ? `Document: ${context.title}` : '',
+        `Part ${index + 1} of ${sections.length}${section.headings.length ? ` (${section.headings.join(' / ')})` : ''}.`,
+        `Summarize this part ${DETAIL_INSTRUCTIONS[context.detail].section}. ${languageInstruction(context.language)}`,
+        '',
+        section.text,
+      ].join('\n');
+
+      try {
+        const { text } = await sectionSummarizer.generate(prompt);
+        results[index].summary = text.trim();
+      } catch (error) {
+        results[index].error = error instanceof Error ? error.message : String(error);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(CONCURRENCY, queue.length)) }, worker));
+  return results;
+}
+
+function formatSummaries(summaries: SectionSummary[]): string {
+  return summaries
+    .map(summary => `## Part ${summary.index + 1}${summary.headings.length ? `: ${summary.headings.join(' / ')}` : ''}\n${summary.summary}`)
+    .join('\n\n');
+}
+
+/**
+ * Reduce phase: combines section summaries into one summary. When they are
+ * too long for one request they are first condensed in groups.
+ */
+export async function combineSummaries(summaries: SectionSummary[], context: SummaryContext): Promise<string> {
+  let notes = formatSummaries(summaries.filter(summary => summary.summary));
+
+  while (notes.length > REDUCE_CHARS) {
+    const groups = splitIntoSections(notes, REDUCE_CHARS);
+    const condensed = await Promise.all(
+      groups.map(async group => {
+        const { text } = await sectionSummarizer.generate(
+          `Condense these notes about consecutive parts of a document, keeping the key facts. ${languageInstruction(context.language)}\n\n${group.text}`,
+        );
+        return text.trim();
+      }),
+    );
+    const next = condensed.join('\n\n');
+    // Guard against a model that does not shorten its input.
+    if (next.length >= notes.length) break;
+    notes = next;
+  }
+
+  const { text } = await sectionSummarizer.generate(
+    [
+      context.title ? `Document: ${context.title}` : '',
+      `Below are summaries of each part of the document, in order. Write a summary of the whole document ${DETAIL_INSTRUCTIONS[context.detail].final}.`,
+      'Identify the main topic and purpose, then the main points and conclusions. Do not mention the parts themselves.',
+      languageInstruction(context.language),
+      '',
+      notes,
+    ].join('\n'),
+  );
+  return text.trim();
+}
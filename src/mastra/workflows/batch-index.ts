@@ -0,0 +1,44 @@
+import { Step, Workflow } from '@mastra/core/workflows';
+import { z } from 'zod';
+import { createBatchJob, getBatchJob, runBatchJob, summarizeBatchJob } from '../rag/batchIndexer';
+import { indexingOptionsSchema } from '../tools/knowledgeIndexTool';
+import { batchDocumentSchema, batchDocumentStatusSchema, batchIndexResultSchema } from '../tools/knowledgeBatchIndexTool';
+
+const indexDocuments = new Step({
+  id: 'index-documents',
+  description: 'Indexes the batch, suspending with the failed documents so they can be retried on resume',
+  outputSchema: batchIndexResultSchema.extend({
+    statuses: z.array(batchDocumentStatusSchema),
+  }),
+  execute: async ({ context, runId, suspend }) => {
+    // Progress lives in process memory keyed by run id. If the process
+    // restarted since the run suspended, the whole batch is indexed again;
+    // re-indexing a document replaces its chunks, so this is safe.
+    const job = getBatchJob(runId) ?? createBatchJob(context.triggerData, runId);
+
+    if (context.inputData?.acceptFailures) {
+      return { ...summarizeBatchJob(job), statuses: job.statuses };
+    }
+
+    const result = await runBatchJob(job, { concurrency: context.triggerData.concurrency });
+    if (result.failed > 0) {
+      await suspend({
+        message: `${result.failed} of ${result.total} documents failed. Resume to retry them, or resume with { acceptFailures: true } to finish.`,
+        failed: job.statuses.filter(status => status.status === 'failed'),
+      });
+    }
+
+    return { ...result, statuses: job.statuses };
+  },
+});
+
+export const batchIndexWorkflow = new Workflow({
+  name: 'batch-index-workflow',
+  triggerSchema: z.object({
+    documents: z.array(batchDocumentSchema).min(1),
+    options: indexingOptionsSchema.optional(),
+    concurrency: z.number().int().min(1).max(16).optional(),
+  }),
+})
+  .step(indexDocuments)
+  .commit();
@@ -0,0 +1,122 @@
+import { Step, Workflow } from '@mastra/core/workflows';
+import { z } from 'zod';
+import { toStepError } from '../errors';
+import { fetchPage } from '../web/fetchPage';
+import {
+  combineSummaries,
+  DETAIL_LEVELS,
+  MAX_SECTIONS,
+  splitIntoSections,
+  summarizeSections,
+  type SectionSummary,
+} from '../web/summarize';
+
+const triggerSchema = z.object({
+  url: z.string().url(),
+  detail: z.enum(DETAIL_LEVELS).optional().describe("Defaults to 'standard'"),
+  language: z.string().optional().describe('Language to write the summary in; defaults to the page language'),
+});
+
+const sectionSummarySchema = z.object({
+  index: z.number(),
+  headings: z.array(z.string()),
+  summary: z.string().optional(),
+  error: z.string().optional(),
+});
+
+const fetchPageStep = new Step({
+  id: 'fetch-page',
+  description: 'Fetches the page and extracts its full main content',
+  outputSchema: z.object({
+    url: z.string(),
+    title: z.string().optional(),
+    byline: z.string().optional(),
+    publishedAt: z.string().optional(),
+    language: z.string().optional(),
+    content: z.string(),
+  }),
+  execute: async ({ context }) => {
+    try {
+      const { url, title, byline, publishedAt, language, content } = await fetchPage(context.triggerData.url);
+      return { url, title, byline, publishedAt, language, content };
+    } catch (error) {
+      throw toStepError(error, `Fetching ${context.triggerData.url}`);
+    }
+  },
+});
+
+const summarizeSectionsStep = new Step({
+  id: 'summarize-sections',
+  description: 'Splits the content into sections and summarizes each one',
+  outputSchema: z.object({
+    sectionsTotal: z.number(),
+    summaries: z.array(sectionSummarySchema),
+  }),
+  execute: async ({ context }) => {
+    const page = context.getStepResult(fetchPageStep);
+    const sections = splitIntoSections(page.content);
+    const summaries = await summarizeSections(sections.slice(0, MAX_SECTIONS), {
+      title: page.title,
+      detail: context.triggerData.detail ?? 'standard',
+      language: context.triggerData.language,
+    });
+    return { sectionsTotal: sections.length, summaries };
+  },
+});
+
+const combineSummariesStep = new Step({
+  id: 'combine-summaries',
+  description: 'Combines the section summaries into the final summary',
+  outputSchema: z.object({
+    url: z.string(),
+    title: z.string().optional(),
+    byline: z.string().optional(),
+    publishedAt: z.string().optional(),
+    detail: z.enum(DETAIL_LEVELS),
+    summary: z.string(),
+    sectionsTotal: z.number(),
+    sectionsCovered: z.number(),
+    sections: z.array(sectionSummarySchema),
+  }),
+  execute: async ({ context }) => {
+    const page = context.getStepResult(fetchPageStep);
+    const { sectionsTotal, summaries } = context.getStepResult(summarizeSectionsStep);
+    const covered = summaries.filter((summary: SectionSummary) => summary.summary);
+    if (covered.length === 0) {
+      throw toStepError(new Error(summaries[0]?.error ?? 'page has no content'), 'Summarizing the page');
+    }
+
+    const detail = context.triggerData.detail ?? 'standard';
+    let summary: string;
+    try {
+      summary = await combineSummaries(covered, {
+        title: page.title,
+        detail,
+        language: context.triggerData.language,
+      });
+    } catch (error) {
+      throw toStepError(error, 'Combining section summaries');
+    }
+
+    return {
+      url: page.url,
+      title: page.title,
+      byline: page.byline,
+      publishedAt: page.publishedAt,
+      detail,
+      summary,
+      sectionsTotal,
+      sectionsCovered: covered.length,
+      sections: summaries,
+    };
+  },
+});
+
+export const summarizePageWorkflow = new Workflow({
+  name: 'summarize-page-workflow',
+  triggerSchema,
+})
+  .step(fetchPageStep)
+  .then(summarizeSectionsStep)
+  .then(combineSummariesStep)
+  .commit();
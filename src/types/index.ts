@@ -65,6 +65,11 @@ export interface SearchResult {
     relevanceLevel: 'high' | 'medium' | 'low' | 'minimal';
 }
 
+/**
+ * 文档格式类型
+ */
+export type DocumentFormat = 'text' | 'markdown' | 'html';
+
 /**
  * 文档索引选项
  */
@@ -73,6 +78,7 @@ export interface IndexingOptions {
     chunkOverlap?: number;
     extractMetadata?: boolean;
     validateContent?: boolean;
+    format?: DocumentFormat;
 }
 
 /**
@@ -83,6 +89,7 @@ export interface DocumentProcessingResult {
     content?: string;
     metadata?: Record<string, any>;
     errors?: string[];
+    warnings?: string[];
 }
 
 /**
@@ -239,6 +246,17 @@ export interface BatchIndexResult {
     errors: string[];
 }
 
+/**
+ * 批量索引中单个文档的状态
+ */
+export interface BatchDocumentStatus {
+    index: number;
+    title: string;
+    status: OperationStatus;
+    attempts: number;
+    error?: string;
+}
+
 /**
  * 高级搜索参数
  */
@@ -313,6 +331,8 @@ export interface RAGConfig {
         pinecone: string;
     };
     indexName: string;
+    /** filePath 可读取的目录；为空时禁止读取文件 */
+    documentsDir: string;
     embedding: {
         model: string;
         dimension: number;
@@ -329,4 +349,15 @@ export interface RAGConfig {
         enabled: boolean;
         ttl: number;
     };
-}
\ No newline at end of file
+}
+/**
+ * 向量查询匹配结果类型
+ */
+export interface VectorMatch extends VectorRecord {
+    score: number;
+}
+
+/**
+ * 元数据过滤条件类型（字段精确匹配）
+ */
+export type MetadataFilter = Record<string, string | number | boolean>;